@@ -11,5 +11,52 @@ export const config = {
   // 20 min - Session expiration on the server side, matched with config.x.relay.session_timeout on Zax server
   RELAY_SESSION_TIMEOUT: 20 * 60 * 1000 - sessionTimeoutBuffer,
   // 5 sec - Ajax request timeout
-  RELAY_AJAX_TIMEOUT: 5 * 1000
+  RELAY_AJAX_TIMEOUT: 5 * 1000,
+  // 10 ms - Additional timeout per KB of a file chunk transfer, i.e. links down to 100 KB/s are tolerated
+  RELAY_TIMEOUT_PER_KB: 10,
+  // 512 KB - Expected size of a downloaded file chunk, used to scale its timeout
+  RELAY_EXPECTED_CHUNK_SIZE: 512 * 1024,
+  // Relay command attempts, including the first one, before a network error is surfaced
+  RELAY_RETRY_ATTEMPTS: 3,
+  // 0.5 sec - Initial backoff delay between attempts, doubled after each failure
+  RELAY_RETRY_BASE_DELAY: 500,
+  // 8 sec - Upper bound of the backoff delay
+  RELAY_RETRY_MAX_DELAY: 8 * 1000,
+  // 1 min - How long a relay that failed with a network error is skipped by RelaySet
+  RELAY_FAILOVER_COOLDOWN: 60 * 1000,
+  // Handshake difficulty from which proof of work is computed in a worker instead of the main thread
+  POW_WORKER_MIN_DIFFICULTY: 8,
+  // 1 min - How long relay probe results are reused
+  RELAY_PROBE_TTL: 60 * 1000,
+  // 5 sec - Polling interval of Mailbox.watch while new messages keep arriving
+  MAILBOX_WATCH_INTERVAL: 5 * 1000,
+  // 1 min - Polling interval of Mailbox.watch after a long idle period
+  MAILBOX_WATCH_MAX_INTERVAL: 60 * 1000,
+  // Max number of messages kept in the local Inbox
+  INBOX_MAX_MESSAGES: 1000,
+  // 30 days - Max age of messages kept in the local Inbox
+  INBOX_MAX_AGE: 30 * 24 * 60 * 60 * 1000,
+  // 64 KB - Default max size of a text message in UTF-8 sent as one relay message, larger ones are split
+  // into parts. Encryption and Base64 make a relay message about 4/3 of this size. See `Mailbox.setMessageMaxSize`
+  MESSAGE_MAX_SIZE: 64 * 1024,
+  // 24 hours - How long parts of a split message are awaited before an incomplete message is dropped
+  MESSAGE_PARTS_TTL: 24 * 60 * 60 * 1000,
+  // Version of envelopes created by `Mailbox.sendObject`, newer versions are not parsed
+  MESSAGE_ENVELOPE_VERSION: 1,
+  // Max number of uploads to a relay running at a time during `Mailbox.broadcast`
+  BROADCAST_CONCURRENCY: 4,
+  // 30 days - How long receipt state of sent messages is kept
+  RECEIPTS_MAX_AGE: 30 * 24 * 60 * 60 * 1000,
+  // Number of recent sequence numbers of each sender whose nonces are kept to recognize duplicates
+  SEQUENCE_WINDOW: 1000,
+  // 7 days - Max age of a message by its nonce timestamp accepted by the replay guard
+  REPLAY_WINDOW: 7 * 24 * 60 * 60 * 1000,
+  // 5 min - Tolerated difference of a sender clock ahead of ours
+  REPLAY_CLOCK_SKEW: 5 * 60 * 1000,
+  // Max number of nonces remembered by the replay guard per guest
+  REPLAY_CACHE_SIZE: 1000,
+  // Attempts to send an Outbox item before it's marked as failed
+  OUTBOX_MAX_ATTEMPTS: 5,
+  // 30 sec - Delay before the Outbox sends queued items again after a network error
+  OUTBOX_RETRY_INTERVAL: 30 * 1000
 };
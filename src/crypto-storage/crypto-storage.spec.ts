@@ -1,5 +1,6 @@
 import { CryptoStorage } from './crypto-storage';
 import { NaCl } from '../nacl/nacl';
+import { GlowStorageError } from '../errors';
 
 describe('CryptoStorage', () => {
   let storage: CryptoStorage;
@@ -10,6 +11,12 @@ describe('CryptoStorage', () => {
     storage = await CryptoStorage.new('test');
   });
 
+  it('Storage driver is set only once', () => {
+    expect(() => CryptoStorage.setDefaultStorageDriver()).toThrow(GlowStorageError);
+    expect(() => CryptoStorage.setDefaultStorageDriver())
+      .toThrow(expect.objectContaining({ code: 'STORAGE_ALREADY_CONFIGURED' }));
+  });
+
   it('ASCII string write/read', async () => {
     const secretPlaintext = 'The quick brown fox jumps over the lazy dog';
 
@@ -4,6 +4,7 @@ import { config } from '../config';
 import { StorageDriver } from './storage-driver.interface';
 import { NaClDriver } from '../nacl/nacl-driver.interface';
 import { LocalStorageDriver } from './local-storage.driver';
+import { GlowStorageError, GlowDecryptionError } from '../errors';
 
 // TODO: add bulk operations to set(), get() and remove() pairs of values simultaneously
 
@@ -43,7 +44,7 @@ export class CryptoStorage {
 
   static getStorageDriver() {
     if (!this.storageDriver) {
-      throw new Error('[CryptoStorage] StorageDriver instance is not yet set');
+      throw new GlowStorageError('STORAGE_NOT_CONFIGURED', '[CryptoStorage] StorageDriver instance is not yet set');
     } else {
       return this.storageDriver;
     }
@@ -55,7 +56,8 @@ export class CryptoStorage {
 
   static setStorageDriver(driver: StorageDriver) {
     if (this.storageDriver) {
-      throw new Error('[CryptoStorage] StorageDriver has been already set, it is supposed to be set only once');
+      throw new GlowStorageError('STORAGE_ALREADY_CONFIGURED',
+        '[CryptoStorage] StorageDriver has been already set, it is supposed to be set only once');
     }
     this.storageDriver = driver;
     return true;
@@ -63,10 +65,10 @@ export class CryptoStorage {
 
   async save(tag: string, data: unknown): Promise<boolean> {
     if (!this.driver) {
-      throw new Error('[CryptoStorage] Storage driver is not set');
+      throw new GlowStorageError('STORAGE_NOT_CONFIGURED', '[CryptoStorage] Storage driver is not set');
     }
     if (!this.storageKey) {
-      throw new Error('[CryptoStorage] Storage key is not set');
+      throw new GlowStorageError('STORAGE_NOT_CONFIGURED', '[CryptoStorage] Storage key is not set');
     }
     // Convert the data to JSON, then convert that string to a byte array
     const input = JSON.stringify(data);
@@ -84,10 +86,10 @@ export class CryptoStorage {
 
   async get<T>(tag: string): Promise<T | null> {
     if (!this.driver) {
-      throw new Error('[CryptoStorage] Storage driver is not set');
+      throw new GlowStorageError('STORAGE_NOT_CONFIGURED', '[CryptoStorage] Storage driver is not set');
     }
     if (!this.storageKey) {
-      throw new Error('[CryptoStorage] Storage key is not set');
+      throw new GlowStorageError('STORAGE_NOT_CONFIGURED', '[CryptoStorage] Storage key is not set');
     }
     // Get cipher text and nonce from the storage
     const [data, nonce] = await this.driver.getMultiple([this.addPrefix(tag), this.addNonceTag(tag)]);
@@ -102,13 +104,13 @@ export class CryptoStorage {
       const decoded = await this.nacl.decode_utf8(source);
       return JSON.parse(decoded) as T;
     } else {
-      throw new Error('[CryptoStorage] crypto_secretbox_open: decryption error');
+      throw new GlowDecryptionError('[CryptoStorage] crypto_secretbox_open: decryption error');
     }
   }
 
   async remove(tag: string): Promise<boolean> {
     if (!this.driver) {
-      throw new Error('[CryptoStorage] Storage driver is not set');
+      throw new GlowStorageError('STORAGE_NOT_CONFIGURED', '[CryptoStorage] Storage driver is not set');
     }
     await this.driver.removeMultiple([this.addPrefix(tag), this.addNonceTag(tag)]);
     return true;
@@ -116,7 +118,7 @@ export class CryptoStorage {
 
   async selfDestruct() {
     if (!this.driver) {
-      throw new Error('[CryptoStorage] Storage driver is not set');
+      throw new GlowStorageError('STORAGE_NOT_CONFIGURED', '[CryptoStorage] Storage driver is not set');
     }
     await this.driver.remove(this.addPrefix(config.SKEY_TAG));
   }
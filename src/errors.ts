@@ -0,0 +1,96 @@
+/**
+ * Stable identifiers of Glow failures, which can be used instead of error messages
+ */
+export type GlowErrorCode =
+  | 'NETWORK_ERROR'
+  | 'ABORTED'
+  | 'BAD_RESPONSE'
+  | 'UNSUPPORTED_COMMAND'
+  | 'UNKNOWN_MESSAGE_KIND'
+  | 'DECRYPTION_FAILED'
+  | 'UNKNOWN_GUEST'
+  | 'NO_SESSION'
+  | 'DIFFICULTY_TOO_HIGH'
+  | 'STORAGE_NOT_CONFIGURED'
+  | 'STORAGE_ALREADY_CONFIGURED'
+  | 'STORAGE_CORRUPTED'
+  | 'REPLICATION_FAILED'
+  | 'INVALID_CONFIGURATION';
+
+/**
+ * Where a failure occurred: a relay and a command or endpoint, if it's related to one
+ */
+export interface GlowErrorContext {
+  relay?: string;
+  command?: string;
+}
+
+/**
+ * Base class of errors thrown by Glow
+ */
+export class GlowError extends Error {
+  readonly name: string = 'GlowError';
+  relay?: string;
+  command?: string;
+
+  constructor(public readonly code: GlowErrorCode, message: string, context: GlowErrorContext = {}) {
+    super(message);
+    this.relay = context.relay;
+    this.command = context.command;
+  }
+}
+
+/**
+ * Relay response or message doesn't follow the Zax protocol, or a command is not supported
+ */
+export class GlowProtocolError extends GlowError {
+  readonly name = 'GlowProtocolError';
+}
+
+/**
+ * Data could not be decrypted with the given keys
+ */
+export class GlowDecryptionError extends GlowError {
+  readonly name = 'GlowDecryptionError';
+
+  constructor(message: string, context?: GlowErrorContext) {
+    super('DECRYPTION_FAILED', message, context);
+  }
+}
+
+/**
+ * Guest is not found in the keyring
+ */
+export class GlowUnknownGuestError extends GlowError {
+  readonly name = 'GlowUnknownGuestError';
+
+  constructor(public readonly guest: string, context?: GlowErrorContext) {
+    super('UNKNOWN_GUEST', `[Mailbox] Unknown guest ${guest}`, context);
+  }
+}
+
+/**
+ * Relay session is not established, or can't be established on our terms
+ */
+export class GlowSessionError extends GlowError {
+  readonly name = 'GlowSessionError';
+}
+
+/**
+ * CryptoStorage is not configured, or stored data is not what was expected
+ */
+export class GlowStorageError extends GlowError {
+  readonly name = 'GlowStorageError';
+}
+
+/**
+ * An operation replicated to several relays failed on some of them with errors other than network
+ * failures. Results of the relays that succeeded are kept, e.g. storage tokens of an uploaded message
+ */
+export class GlowReplicationError<T = unknown> extends GlowError {
+  readonly name = 'GlowReplicationError';
+
+  constructor(public readonly results: Map<string, T>, public readonly errors: Map<string, unknown>) {
+    super('REPLICATION_FAILED', `[RelaySet] Operation failed on ${[...errors.keys()].join(', ')}`);
+  }
+}
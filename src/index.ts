@@ -5,16 +5,43 @@ import { KeyRing } from './keyring/keyring';
 import { CryptoStorage } from './crypto-storage/crypto-storage';
 import { StorageDriver } from './crypto-storage/storage-driver.interface';
 import { LocalStorageDriver } from './crypto-storage/local-storage.driver';
-import { Mailbox } from './mailbox/mailbox';
-import { Relay } from './relay/relay';
+import { Mailbox, MailboxEvents, ProcessMessagesResult, BroadcastResult } from './mailbox/mailbox';
+import { Relay, RelayOptions, RelayProbeResult, RelayProbeError, RelayEvents, RelaySessionState } from './relay/relay';
+import { RelayFactory } from './relay/relay-factory';
 import {
-  ZaxMessageKind, ZaxTextMessage, ZaxFileMessage, ZaxPlainMessage, ZaxParsedMessage, FileStatusResponse
+  ZaxMessageKind, ZaxTextMessage, ZaxFileMessage, ZaxPlainMessage, ZaxParsedMessage, FileStatusResponse,
+  ZaxObjectMessage, MessageEnvelope, ZaxRejectedMessage, ZaxRejectReason, ZaxUnencryptedMessage
 } from './zax.interface';
 import { JsNaClDriver } from './nacl/js-nacl-driver';
 import { Utils } from './utils/utils';
 import { NaClDriver } from './nacl/nacl-driver.interface';
 import { GlowNetworkError } from './relay/network-error';
+import { Logger, LogLevel, LogContext } from './logger/logger.interface';
+import { Log } from './logger/log';
+import { ConsoleLogger } from './logger/console-logger';
+import { GlowAbortError } from './relay/abort-error';
+import {
+  GlowError, GlowErrorCode, GlowErrorContext, GlowProtocolError, GlowDecryptionError, GlowUnknownGuestError,
+  GlowSessionError, GlowStorageError, GlowReplicationError
+} from './errors';
 import { InMemoryStorage } from './crypto-storage/in-memory-storage';
+import { RelayCommands, RelayCommandDefinition } from './relay/relay-commands';
+import { RelayTransport, RelayRequest } from './relay/relay-transport.interface';
+import { FetchTransport } from './relay/fetch-transport';
+import {
+  RelayMiddleware, RelayRequestInfo, RelayResponseInfo, RelayErrorInfo, redactLines
+} from './relay/relay-middleware';
+import { RetryPolicy, RetryEvent } from './mailbox/retry-policy';
+import { RelaySet, RelaySetOptions } from './mailbox/relay-set';
+import { MailboxWatcher, MailboxWatcherEvents, WatchOptions } from './mailbox/mailbox-watcher';
+import { Inbox, InboxEntry, InboxMessage, InboxQuery, InboxOptions } from './mailbox/inbox';
+import {
+  Outbox, OutboxItem, OutboxMessageItem, OutboxFileItem, OutboxFileUpload, OutboxSender, OutboxItemStatus,
+  OutboxEvents, OutboxOptions
+} from './mailbox/outbox';
+import { MessageReceipt, ReceiptStatus, ReceiptPayload } from './mailbox/receipts';
+import { ReplayGuardOptions } from './mailbox/replay-guard';
+import { ProofOfWork, ProofOfWorkOptions, ProofOfWorkProgress } from './relay/proof-of-work';
 
 export {
   NaCl,
@@ -22,7 +49,16 @@ export {
   Keys,
   KeyRing,
   Mailbox,
+  type MailboxEvents,
+  type ProcessMessagesResult,
+  type BroadcastResult,
   Relay,
+  RelayFactory,
+  type RelayOptions,
+  type RelaySessionState,
+  type RelayProbeResult,
+  type RelayProbeError,
+  type RelayEvents,
   CryptoStorage,
   type StorageDriver,
   LocalStorageDriver,
@@ -31,10 +67,68 @@ export {
   type ZaxFileMessage,
   type ZaxPlainMessage,
   type ZaxParsedMessage,
+  type ZaxObjectMessage,
+  type MessageEnvelope,
+  type ZaxRejectedMessage,
+  type ZaxUnencryptedMessage,
+  type ZaxRejectReason,
   type FileStatusResponse,
   type NaClDriver,
   JsNaClDriver,
   Utils,
   GlowNetworkError,
-  InMemoryStorage
+  GlowAbortError,
+  GlowError,
+  type GlowErrorCode,
+  type GlowErrorContext,
+  GlowProtocolError,
+  GlowDecryptionError,
+  GlowUnknownGuestError,
+  GlowSessionError,
+  GlowStorageError,
+  GlowReplicationError,
+  type Logger,
+  type LogLevel,
+  type LogContext,
+  Log,
+  ConsoleLogger,
+  InMemoryStorage,
+  RelayCommands,
+  type RelayCommandDefinition,
+  type RelayTransport,
+  type RelayRequest,
+  FetchTransport,
+  type RelayMiddleware,
+  type RelayRequestInfo,
+  type RelayResponseInfo,
+  type RelayErrorInfo,
+  redactLines,
+  type RetryPolicy,
+  type RetryEvent,
+  RelaySet,
+  MailboxWatcher,
+  type MailboxWatcherEvents,
+  type WatchOptions,
+  Inbox,
+  type InboxEntry,
+  type InboxMessage,
+  type InboxQuery,
+  type InboxOptions,
+  Outbox,
+  type OutboxItem,
+  type OutboxMessageItem,
+  type OutboxFileItem,
+  type OutboxFileUpload,
+  type OutboxSender,
+  type OutboxItemStatus,
+  type OutboxEvents,
+  type OutboxOptions,
+  type MessageReceipt,
+  type ReceiptStatus,
+  type ReceiptPayload,
+  type ReplayGuardOptions,
+  type RelaySetOptions,
+  ProofOfWork,
+  type ProofOfWorkOptions,
+  type ProofOfWorkProgress
 };
@@ -3,6 +3,7 @@ import { Keys } from '../keys/keys';
 import { NaCl } from '../nacl/nacl';
 import { Utils, Base64 } from '../utils/utils';
 import { NaClDriver } from '../nacl/nacl-driver.interface';
+import { GlowStorageError } from '../errors';
 
 interface KeyRecord {
   pk: Base64;
@@ -22,7 +23,8 @@ export class KeyRing {
   static readonly guestRegistryTag = 'guest_registry';
 
   private commKey: Keys;
-  private storage: CryptoStorage;
+  // Encrypted storage of this keyring, also used by the Mailbox for its own records
+  readonly storage: CryptoStorage;
   private guestKeys: Map<string, KeyRecord> = new Map();
   private nacl: NaClDriver;
 
@@ -154,7 +156,7 @@ export class KeyRing {
     } else if (typeof guestKeys === 'object') {
       this.guestKeys = new Map(Object.entries(guestKeys));
     } else {
-      throw new Error('[Keyring] Guest keys is not an object');
+      throw new GlowStorageError('STORAGE_CORRUPTED', '[Keyring] Guest keys is not an object');
     }
   }
 
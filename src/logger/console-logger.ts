@@ -0,0 +1,17 @@
+import { Logger, LogContext, LogLevel } from './logger.interface';
+
+const levels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Writes log records of `minLevel` and above to the console
+ */
+export class ConsoleLogger implements Logger {
+
+  constructor(private minLevel: LogLevel = 'info') {}
+
+  log(level: LogLevel, message: string, context: LogContext) {
+    if (levels.indexOf(level) >= levels.indexOf(this.minLevel)) {
+      console[level](message, context);
+    }
+  }
+}
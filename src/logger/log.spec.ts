@@ -0,0 +1,56 @@
+import { NaCl } from '../nacl/nacl';
+import { Relay } from '../relay/relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { Logger } from './logger.interface';
+import { Log } from './log';
+import { ConsoleLogger } from './console-logger';
+
+describe('Log', () => {
+  const failingTransport = { send: jest.fn().mockRejectedValue(new GlowNetworkError(503)) };
+
+  beforeAll(() => {
+    NaCl.setDefaultInstance();
+  });
+
+  afterEach(() => {
+    Log.setDefaultLogger(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should be silent by default', async () => {
+    const consoleLog = jest.spyOn(console, 'log');
+    const consoleWarn = jest.spyOn(console, 'warn');
+    await new Relay('https://silent.zax', failingTransport).probe();
+    expect(consoleLog).not.toHaveBeenCalled();
+    expect(consoleWarn).not.toHaveBeenCalled();
+  });
+
+  it('should send records with context to the default logger', async () => {
+    const logger: Logger = { log: jest.fn() };
+    Log.setDefaultLogger(logger);
+    await new Relay('https://default.zax', failingTransport).probe();
+    expect(logger.log).toHaveBeenCalledWith('warn', expect.stringContaining('Request failed'),
+      { relay: 'https://default.zax', command: 'start_session', status: 503 });
+  });
+
+  it('should prefer a logger set on a relay', async () => {
+    const defaultLogger: Logger = { log: jest.fn() };
+    const relayLogger: Logger = { log: jest.fn() };
+    Log.setDefaultLogger(defaultLogger);
+    const relay = new Relay('https://own.zax', failingTransport);
+    relay.setLogger(relayLogger);
+    await relay.probe();
+    expect(relayLogger.log).toHaveBeenCalledTimes(1);
+    expect(defaultLogger.log).not.toHaveBeenCalled();
+  });
+
+  it('should filter console records by level', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+    const consoleDebug = jest.spyOn(console, 'debug').mockImplementation();
+    const logger = new ConsoleLogger('warn');
+    logger.log('debug', 'hidden', {});
+    logger.log('warn', 'shown', { relay: 'https://console.zax' });
+    expect(consoleDebug).not.toHaveBeenCalled();
+    expect(consoleWarn).toHaveBeenCalledWith('shown', { relay: 'https://console.zax' });
+  });
+});
@@ -0,0 +1,23 @@
+import { Logger } from './logger.interface';
+
+const silentLogger: Logger = {
+  log: () => { /* silent by default */ }
+};
+
+/**
+ * Facade to the default logger, used by Mailbox and Relay instances without their own logger.
+ * It's silent unless replaced with `setDefaultLogger`
+ */
+export class Log {
+  private static defaultLogger: Logger = silentLogger;
+
+  private constructor() { }
+
+  public static setDefaultLogger(logger: Logger | null) {
+    this.defaultLogger = logger ?? silentLogger;
+  }
+
+  public static getDefaultLogger(): Logger {
+    return this.defaultLogger;
+  }
+}
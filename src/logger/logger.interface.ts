@@ -0,0 +1,21 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured context of a log record
+ */
+export interface LogContext {
+  // Base URL of the relay
+  relay?: string;
+  // Relay endpoint or Mailbox command
+  command?: string;
+  // Identity of the Mailbox
+  mailbox?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Receives log records of the library. Implementations should not throw
+ */
+export interface Logger {
+  log(level: LogLevel, message: string, context: LogContext): void;
+}
@@ -0,0 +1,144 @@
+import { config } from '../config';
+import { CryptoStorage } from '../crypto-storage/crypto-storage';
+import { Base64 } from '../utils/utils';
+import { ZaxFileMessage, ZaxMessageKind, ZaxParsedMessage, ZaxTextMessage } from '../zax.interface';
+
+export type InboxMessage = ZaxTextMessage | ZaxFileMessage;
+
+export interface InboxEntry {
+  message: InboxMessage;
+  // URL of the relay the message was downloaded from
+  relay: string;
+  read: boolean;
+}
+
+/**
+ * Filters of `Inbox.query`. Time range is inclusive, in seconds as in message `time`
+ */
+export interface InboxQuery {
+  senderTag?: string;
+  since?: number;
+  until?: number;
+  unread?: boolean;
+  // Returns the latest entries only
+  limit?: number;
+}
+
+export interface InboxOptions {
+  // Max number of stored messages, the oldest ones are dropped first
+  maxMessages?: number;
+  // Max age of stored messages in milliseconds
+  maxAge?: number;
+}
+
+/**
+ * Local history of decrypted messages, kept in the encrypted storage of a Mailbox. Messages stay
+ * in the inbox after they are deleted from a relay, until they are removed by the retention limits.
+ * Plain messages from unknown senders and rejected messages are not stored
+ */
+export class Inbox {
+  static readonly storageTag = 'inbox';
+
+  private maxMessages = config.INBOX_MAX_MESSAGES;
+  private maxAge = config.INBOX_MAX_AGE;
+
+  private constructor(private storage: CryptoStorage, private entries: Map<Base64, InboxEntry>,
+    options: InboxOptions) {
+    this.setRetention(options);
+  }
+
+  static async load(storage: CryptoStorage, options: InboxOptions = {}): Promise<Inbox> {
+    const entries = await storage.get<InboxEntry[]>(Inbox.storageTag) ?? [];
+    return new Inbox(storage, new Map(entries.map(entry => [entry.message.nonce, entry])), options);
+  }
+
+  /**
+   * Changes retention limits, which are applied when new messages are added
+   */
+  setRetention({ maxMessages, maxAge }: InboxOptions) {
+    this.maxMessages = maxMessages ?? this.maxMessages;
+    this.maxAge = maxAge ?? this.maxAge;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get unreadCount(): number {
+    return [...this.entries.values()].filter(entry => !entry.read).length;
+  }
+
+  get(nonce: Base64): InboxEntry | undefined {
+    return this.entries.get(nonce);
+  }
+
+  /**
+   * Stores messages that are not in the inbox yet as unread, and returns their entries
+   */
+  async add(relay: string, messages: ZaxParsedMessage[]): Promise<InboxEntry[]> {
+    const added: InboxEntry[] = [];
+    for (const message of messages) {
+      const stored = message.kind === ZaxMessageKind.message || message.kind === ZaxMessageKind.file;
+      if (stored && !this.entries.has(message.nonce)) {
+        const entry = { message, relay, read: false };
+        this.entries.set(message.nonce, entry);
+        added.push(entry);
+      }
+    }
+    if (added.length) {
+      this.applyRetention();
+      await this.save();
+    }
+    return added.filter(entry => this.entries.has(entry.message.nonce));
+  }
+
+  /**
+   * Returns matching entries ordered by message time
+   */
+  query({ senderTag, since, until, unread, limit }: InboxQuery = {}): InboxEntry[] {
+    const entries = this.sorted().filter(({ message, read }) =>
+      (senderTag === undefined || message.senderTag === senderTag)
+      && (since === undefined || message.time >= since)
+      && (until === undefined || message.time <= until)
+      && (unread === undefined || read !== unread));
+    return limit === undefined ? entries : entries.slice(-limit);
+  }
+
+  async markRead(nonces: Base64[], read = true) {
+    for (const nonce of nonces) {
+      const entry = this.entries.get(nonce);
+      if (entry) {
+        entry.read = read;
+      }
+    }
+    await this.save();
+  }
+
+  async remove(nonces: Base64[]) {
+    nonces.forEach(nonce => this.entries.delete(nonce));
+    await this.save();
+  }
+
+  async clear() {
+    this.entries.clear();
+    await this.storage.remove(Inbox.storageTag);
+  }
+
+  private sorted(): InboxEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.message.time - b.message.time);
+  }
+
+  private applyRetention() {
+    const oldest = (Date.now() - this.maxAge) / 1000;
+    const sorted = this.sorted();
+    sorted.forEach((entry, i) => {
+      if (entry.message.time < oldest || i < sorted.length - this.maxMessages) {
+        this.entries.delete(entry.message.nonce);
+      }
+    });
+  }
+
+  private async save() {
+    await this.storage.save(Inbox.storageTag, [...this.entries.values()]);
+  }
+}
@@ -0,0 +1,128 @@
+import { config } from '../config';
+import { Base64 } from '../utils/utils';
+import { EventEmitter } from '../utils/event-emitter';
+import { ZaxParsedMessage } from '../zax.interface';
+
+export interface WatchOptions {
+  // Polling interval in milliseconds, used while new messages keep arriving
+  interval?: number;
+  // Upper bound of the polling interval, which doubles after each poll without new messages
+  maxInterval?: number;
+  // Stops watching when aborted
+  signal?: AbortSignal;
+}
+
+export type MailboxWatcherEvents = {
+  message: [message: ZaxParsedMessage];
+  // Failed poll. Watching goes on with backoff, reconnecting to a relay as needed
+  error: [error: Error];
+  stop: [];
+};
+
+/**
+ * Polls a relay for new messages, and emits each message once even though it's downloaded again
+ * by the following polls until deleted. Can be consumed as an async iterator; breaking out of
+ * a `for await` loop stops the watcher
+ */
+export class MailboxWatcher extends EventEmitter<MailboxWatcherEvents> implements AsyncIterable<ZaxParsedMessage> {
+  private baseInterval: number;
+  private maxInterval: number;
+  private currentInterval: number;
+  private stopped = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private controller = new AbortController();
+  // nonces of messages present on a relay as of the last poll
+  private seenNonces = new Set<Base64>();
+
+  constructor(private poll: (signal: AbortSignal) => Promise<ZaxParsedMessage[]>, options: WatchOptions = {}) {
+    super();
+    this.baseInterval = options.interval ?? config.MAILBOX_WATCH_INTERVAL;
+    this.maxInterval = Math.max(this.baseInterval, options.maxInterval ?? config.MAILBOX_WATCH_MAX_INTERVAL);
+    this.currentInterval = this.baseInterval;
+    if (options.signal?.aborted) {
+      this.stopped = true;
+      return;
+    }
+    options.signal?.addEventListener('abort', () => this.stop());
+    // first poll runs right after the caller subscribes
+    this.timer = setTimeout(() => this.tick(), 0);
+  }
+
+  /**
+   * Current polling interval in milliseconds
+   */
+  get interval(): number {
+    return this.currentInterval;
+  }
+
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Stops polling and cancels the poll in progress
+   */
+  stop() {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    clearTimeout(this.timer);
+    this.controller.abort();
+    this.emit('stop');
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ZaxParsedMessage> {
+    // messages are buffered only while iterating
+    const queue: ZaxParsedMessage[] = [];
+    let wake: (() => void) | undefined;
+    const unsubscribe = [
+      this.on('message', message => {
+        queue.push(message);
+        wake?.();
+      }),
+      this.on('stop', () => wake?.())
+    ];
+    try {
+      for (;;) {
+        const message = queue.shift();
+        if (message) {
+          yield message;
+        } else if (this.stopped) {
+          return;
+        } else {
+          await new Promise<void>(resolve => wake = resolve);
+          wake = undefined;
+        }
+      }
+    } finally {
+      unsubscribe.forEach(off => off());
+      this.stop();
+    }
+  }
+
+  private async tick() {
+    let hasNewMessages = false;
+    try {
+      const messages = await this.poll(this.controller.signal);
+      if (this.stopped) {
+        return;
+      }
+      const newMessages = messages.filter(message => !this.seenNonces.has(message.nonce));
+      // deleted messages are not downloaded anymore, so their nonces are dropped
+      this.seenNonces = new Set(messages.map(message => message.nonce));
+      hasNewMessages = newMessages.length > 0;
+      newMessages.forEach(message => this.emit('message', message));
+    } catch (err) {
+      if (this.stopped) {
+        return;
+      }
+      this.emit('error', err instanceof Error ? err : new Error(String(err)));
+    }
+
+    if (!this.stopped) {
+      this.currentInterval = hasNewMessages ? this.baseInterval : Math.min(this.currentInterval * 2, this.maxInterval);
+      this.timer = setTimeout(() => this.tick(), this.currentInterval);
+    }
+  }
+}
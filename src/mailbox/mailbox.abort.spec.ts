@@ -0,0 +1,114 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { GlowAbortError } from '../relay/abort-error';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Cancellation', () => {
+  const url = 'https://abort.zax';
+  const mockRelay = new MockZaxRelay(url);
+  // when set, command requests never complete until they are aborted
+  let hangCommands = false;
+  let hangProbes = false;
+  let onCommand = () => { /* noop */ };
+  let failures: number[] = [];
+  let commandRequests = 0;
+
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+
+  beforeAll(() => {
+    [Alice] = mailboxes;
+    Alice.setRelayTransport({
+      send: async (request: RelayRequest) => {
+        if (hangProbes && request.url.endsWith('/start_session')) {
+          return await new Promise<string>((_, reject) => {
+            request.signal?.addEventListener('abort', () => reject(new GlowAbortError()));
+          });
+        }
+        if (request.url.endsWith('/command')) {
+          commandRequests++;
+          onCommand();
+          if (hangCommands) {
+            return await new Promise<string>((_, reject) => {
+              if (request.signal?.aborted) {
+                reject(new GlowAbortError());
+              }
+              request.signal?.addEventListener('abort', () => reject(new GlowAbortError()));
+            });
+          }
+          const status = failures.shift();
+          if (status !== undefined) {
+            throw new GlowNetworkError(status);
+          }
+        }
+        return await mockRelay.send(request);
+      }
+    });
+    Alice.setRetryPolicy({ baseDelay: 1000, maxDelay: 1000, jitter: 0 });
+  });
+
+  beforeEach(() => {
+    mockRelay.reset();
+    hangCommands = false;
+    hangProbes = false;
+    onCommand = () => { /* noop */ };
+    failures = [];
+    commandRequests = 0;
+  });
+
+  it('should not send requests with an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(Alice.count(url, controller.signal)).rejects.toBeInstanceOf(GlowAbortError);
+    expect(commandRequests).toBe(0);
+  });
+
+  it('should cancel a request in flight', async () => {
+    await Alice.connectToRelay(url);
+    hangCommands = true;
+    const controller = new AbortController();
+    onCommand = () => controller.abort();
+    const upload = Alice.upload(url, 'Bob', 'Hello', true, controller.signal);
+    await expect(upload).rejects.toBeInstanceOf(GlowAbortError);
+    expect(commandRequests).toBe(1);
+  });
+
+  it('should stop retrying once aborted', async () => {
+    await Alice.connectToRelay(url);
+    failures = [503, 503];
+    const controller = new AbortController();
+    // abort during the backoff delay after the first failure
+    onCommand = () => setTimeout(() => controller.abort(), 10);
+    const download = Alice.download(url, controller.signal);
+    await expect(download).rejects.toBeInstanceOf(GlowAbortError);
+    expect(commandRequests).toBe(1);
+  });
+
+  it('should keep working after a cancelled operation', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(Alice.download(url, controller.signal)).rejects.toBeInstanceOf(GlowAbortError);
+    expect(await Alice.count(url)).toBe(0);
+  });
+
+  it('should cancel relay probes', async () => {
+    hangProbes = true;
+    const controller = new AbortController();
+    const ranking = Alice.rankRelays([url], 0, controller.signal);
+    controller.abort();
+    await expect(ranking).rejects.toBeInstanceOf(GlowAbortError);
+  });
+
+  it('should not connect once aborted while waiting for another handshake', async () => {
+    Alice.clearSession(url);
+    const controller = new AbortController();
+    const connecting = Alice.count(url);
+    const waiting = Alice.count(url, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toBeInstanceOf(GlowAbortError);
+    expect(await connecting).toBe(0);
+    expect(commandRequests).toBe(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { ZaxParsedMessage, ZaxTextMessage } from '../zax.interface';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Acknowledged download', () => {
+  const mockRelay = new MockZaxRelay('https://ack.zax');
+  const url = mockRelay.url;
+  let relayDown = false;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  const text = (message: ZaxParsedMessage) => (message as ZaxTextMessage).data;
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+    Bob.setRelayTransport({
+      send: async (request: RelayRequest) => {
+        if (relayDown && request.url.endsWith('/command')) {
+          throw new GlowNetworkError(0);
+        }
+        return await mockRelay.send(request);
+      }
+    });
+  });
+
+  beforeEach(async () => {
+    mockRelay.reset();
+    relayDown = false;
+    for (const message of ['one', 'two', 'three']) {
+      await Alice.upload(url, 'Bob', message);
+    }
+  });
+
+  it('should delete messages after they are handled', async () => {
+    const handled: string[] = [];
+    const result = await Bob.processMessages(url, message => {
+      handled.push(text(message));
+    });
+    expect(handled).toEqual(['one', 'two', 'three']);
+    expect(result).toEqual({ handled: 3, skipped: 0, remaining: 0 });
+    expect(await Bob.count(url)).toBe(0);
+  });
+
+  it('should keep messages after a handler fails', async () => {
+    const failure = new Error('handler failed');
+    const processing = Bob.processMessages(url, async message => {
+      if (text(message) === 'two') {
+        throw failure;
+      }
+    });
+    await expect(processing).rejects.toBe(failure);
+    const remaining = await Bob.download(url);
+    expect(remaining.map(text)).toEqual(['two', 'three']);
+  });
+
+  it('should skip handled messages that were not deleted', async () => {
+    const handled: string[] = [];
+    const handler = async (message: ZaxParsedMessage) => {
+      handled.push(text(message));
+      // relay becomes unreachable after the last message is handled
+      relayDown = text(message) === 'three';
+    };
+    await expect(Bob.processMessages(url, handler)).rejects.toBeInstanceOf(GlowNetworkError);
+
+    relayDown = false;
+    await Alice.upload(url, 'Bob', 'four');
+    const result = await Bob.processMessages(url, handler);
+    expect(handled).toEqual(['one', 'two', 'three', 'four']);
+    expect(result).toEqual({ handled: 1, skipped: 3, remaining: 0 });
+  });
+});
@@ -0,0 +1,62 @@
+import { config } from '../config';
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { GlowUnknownGuestError } from '../errors';
+import { Utils } from '../utils/utils';
+import { ZaxTextMessage } from '../zax.interface';
+import { restoreConfig, setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Broadcast', () => {
+  const mockRelay = new MockZaxRelay('https://broadcast.zax');
+  const url = mockRelay.url;
+  const guestNames = ['Bob', 'Charlie', 'Dave', 'Eve', 'Frank'];
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', ...guestNames]);
+  let Alice: Mailbox;
+  let guests: Mailbox[];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  restoreConfig();
+
+  beforeAll(() => {
+    [Alice, ...guests] = mailboxes;
+    Alice.setRelayTransport({
+      send: async (request: RelayRequest) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        try {
+          await Utils.delay(5);
+          return await mockRelay.send(request);
+        } finally {
+          inFlight--;
+        }
+      }
+    });
+  });
+
+  it('should encrypt the message for each guest', async () => {
+    const results = await Alice.broadcast(url, guestNames, 'notice');
+    expect(Object.keys(results)).toEqual(expect.arrayContaining(guestNames));
+
+    for (const guest of guests) {
+      expect(results[guest.identity]).toEqual({ token: expect.any(String) });
+      const [message] = await guest.download(url) as ZaxTextMessage[];
+      expect(message).toMatchObject({ data: 'notice', senderTag: 'Alice' });
+    }
+  });
+
+  it('should report failures per guest', async () => {
+    const results = await Alice.broadcast(url, ['Bob', 'Mallory'], 'notice');
+    expect(results.Bob).toEqual({ token: expect.any(String) });
+    expect('error' in results.Mallory && results.Mallory.error).toBeInstanceOf(GlowUnknownGuestError);
+  });
+
+  it('should limit the number of concurrent uploads', async () => {
+    config.BROADCAST_CONCURRENCY = 2;
+    await Alice.connectToRelay(url);
+    maxInFlight = 0;
+    await Alice.broadcast(url, guestNames, 'notice');
+    expect(maxInFlight).toBe(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { RelayCommands } from '../relay/relay-commands';
+import { GlowProtocolError } from '../errors';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Custom relay commands', () => {
+  const mockRelay = new MockZaxRelay('https://fork.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice']);
+  let Alice: Mailbox;
+
+  beforeAll(() => {
+    [Alice] = mailboxes;
+
+    mockRelay.addCommand('echo', ({ text }, hpk) => ({ text, hpk }));
+    mockRelay.addCommand('ping', () => ['pong', '42'], false);
+    RelayCommands.register({ name: 'echo', responseLines: 2, encrypted: true });
+    RelayCommands.register({
+      name: 'ping',
+      responseLines: 2,
+      encrypted: false,
+      decode: response => parseInt((response as string[])[1], 10)
+    });
+  });
+
+  it('should run an encrypted custom command', async () => {
+    const result = await Alice.runCustomCommand<{ text: string, hpk: string }>(url, 'echo', { text: 'Hello' });
+    expect(result).toEqual({ text: 'Hello', hpk: await Alice.keyRing.getHpk() });
+  });
+
+  it('should decode responses of custom commands', async () => {
+    expect(await Alice.runCustomCommand(url, 'ping')).toBe(42);
+  });
+
+  it('should reject unknown commands', async () => {
+    await expect(Alice.runCustomCommand(url, 'unknown')).rejects.toThrow('Unknown relay command');
+  });
+
+  it('should validate the number of response lines', async () => {
+    mockRelay.addCommand('broken', () => ['one', 'two', 'three'], false);
+    RelayCommands.register({ name: 'broken', responseLines: 1, encrypted: false });
+    await expect(Alice.runCustomCommand(url, 'broken')).rejects.toThrow('Bad response');
+  });
+
+  it('should reject responses that fail validation', async () => {
+    mockRelay.addCommand('status', () => ({ state: 'unexpected' }));
+    RelayCommands.register({
+      name: 'status',
+      responseLines: 2,
+      encrypted: true,
+      validate: response => typeof (response as { status?: unknown }).status === 'string'
+    });
+    const status = Alice.runCustomCommand(url, 'status');
+    await expect(status).rejects.toBeInstanceOf(GlowProtocolError);
+    await expect(status).rejects.toMatchObject({ code: 'BAD_RESPONSE', relay: url, command: 'status' });
+  });
+});
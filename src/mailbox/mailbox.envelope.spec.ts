@@ -0,0 +1,69 @@
+import { config } from '../config';
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { ZaxTextMessage } from '../zax.interface';
+import { serializeEnvelope } from './message-envelope';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Message envelope', () => {
+  const mockRelay = new MockZaxRelay('https://envelope.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+  });
+
+  beforeEach(() => {
+    mockRelay.reset();
+  });
+
+  it('should send and download typed objects', async () => {
+    const before = Date.now();
+    const { id, token } = await Alice.sendObject(url, 'Bob', 'app/contact', { name: 'Carol', phone: 123 });
+    expect(token).toBeTruthy();
+
+    const [message] = await Bob.downloadObjects<{ name: string }>(url);
+    expect(message.senderTag).toBe('Alice');
+    expect(message.envelope).toEqual({
+      version: config.MESSAGE_ENVELOPE_VERSION,
+      contentType: 'app/contact',
+      id,
+      createdAt: expect.any(Number),
+      payload: { name: 'Carol', phone: 123 }
+    });
+    expect(message.envelope.createdAt).toBeGreaterThanOrEqual(before);
+    expect(message.envelope.payload.name).toBe('Carol');
+  });
+
+  it('should filter objects by content type', async () => {
+    await Alice.sendObject(url, 'Bob', 'app/note', 'first');
+    await Alice.sendObject(url, 'Bob', 'app/contact', {});
+    await Alice.upload(url, 'Bob', 'raw');
+
+    const notes = await Bob.downloadObjects(url, 'app/note');
+    expect(notes.map(message => message.envelope.payload)).toEqual(['first']);
+    expect(await Bob.downloadObjects(url)).toHaveLength(2);
+  });
+
+  it('should parse raw strings as before', async () => {
+    await Alice.upload(url, 'Bob', 'raw');
+    await Alice.upload(url, 'Bob', JSON.stringify({ contentType: 'app/note', payload: 1 }));
+
+    const messages = await Bob.download(url) as ZaxTextMessage[];
+    expect(messages.map(message => message.data)).toEqual(['raw', '{"contentType":"app/note","payload":1}']);
+    expect(messages.every(message => !('envelope' in message))).toBe(true);
+  });
+
+  it('should not parse malformed envelopes or newer versions', async () => {
+    const envelope = { version: 1, contentType: 'app/note', id: 'id', createdAt: Date.now(), payload: 1 };
+    await Alice.upload(url, 'Bob', serializeEnvelope({ ...envelope, version: config.MESSAGE_ENVELOPE_VERSION + 1 }));
+    await Alice.upload(url, 'Bob', serializeEnvelope({ ...envelope, createdAt: 'now' as unknown as number }));
+
+    const messages = await Bob.download(url) as ZaxTextMessage[];
+    expect(messages).toHaveLength(2);
+    expect(messages.every(message => !message.envelope)).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { RelayResponseInfo } from '../relay/relay-middleware';
+import { Logger } from '../logger/logger.interface';
+import { config } from '../config';
+import { RelayCommand } from '../zax.interface';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Session events', () => {
+  const mockRelay = new MockZaxRelay('https://events.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice']);
+  let Alice: Mailbox;
+  let events: unknown[][];
+
+  beforeAll(() => {
+    [Alice] = mailboxes;
+    for (const event of ['connecting', 'connected', 'tokenExpired', 'sessionExpired', 'unauthorized', 'error']) {
+      Alice.on(event as 'connecting', (...args) => events.push([event, ...args]));
+    }
+  });
+
+  beforeEach(() => {
+    events = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should emit connection events', async () => {
+    await Alice.connectToRelay(url);
+    expect(events).toEqual([['connecting', url], ['connected', url, 0]]);
+  });
+
+  it('should emit expiration events', async () => {
+    jest.useFakeTimers({ legacyFakeTimers: true });
+    Alice.configureRelay(url, { tokenTimeout: 100, sessionTimeout: 200 });
+    await Alice.connectToRelay(url);
+    events = [];
+
+    jest.advanceTimersByTime(100);
+    expect(events).toEqual([['tokenExpired', url]]);
+    jest.advanceTimersByTime(100);
+    expect(events).toEqual([['tokenExpired', url], ['sessionExpired', url]]);
+    Alice.configureRelay(url, {
+      tokenTimeout: config.RELAY_TOKEN_TIMEOUT,
+      sessionTimeout: config.RELAY_SESSION_TIMEOUT
+    });
+  });
+
+  it('should emit unauthorized event before reconnecting', async () => {
+    await Alice.connectToRelay(url);
+    mockRelay.expireSessions();
+    events = [];
+
+    await Alice.count(url);
+    expect(events).toEqual([['unauthorized', url], ['connecting', url], ['connected', url, 0]]);
+  });
+
+  it('should emit errors of failed requests', async () => {
+    const errorTransport = { send: jest.fn().mockRejectedValue(new GlowNetworkError(0)) };
+    Alice.setRelayTransport(errorTransport);
+    await expect(Alice.connectToRelay(url)).rejects.toEqual(new GlowNetworkError(0));
+    expect(events).toEqual([['connecting', url], ['error', url, new GlowNetworkError(0)]]);
+    Alice.setRelayTransport(mockRelay);
+  });
+
+  it('should stop notifying removed listeners', async () => {
+    const listener = jest.fn();
+    const unsubscribe = Alice.on('connected', listener);
+    unsubscribe();
+    await Alice.connectToRelay(url);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should trace relay commands with middleware', async () => {
+    const responses: RelayResponseInfo[] = [];
+    const remove = Alice.useRelayMiddleware({ after: response => responses.push(response) });
+    await Alice.connectToRelay(url);
+    await Alice.count(url);
+    remove();
+    await Alice.count(url);
+
+    expect(responses.map(response => response.command ?? response.endpoint))
+      .toEqual(['start_session', 'verify_session', 'prove', 'count']);
+    expect(responses.every(response => response.relay === url)).toBe(true);
+  });
+
+  it('should log with the mailbox identity', async () => {
+    const logger: Logger = { log: jest.fn() };
+    Alice.setLogger(logger);
+    mockRelay.reset();
+    await Alice.count(url);
+    Alice.setLogger(null);
+
+    expect(logger.log).toHaveBeenCalledWith('warn', expect.any(String),
+      expect.objectContaining({ mailbox: 'Alice', relay: url, command: RelayCommand.count, status: 401 }));
+    expect(logger.log).toHaveBeenCalledWith('info', expect.any(String),
+      expect.objectContaining({ mailbox: 'Alice', relay: url, command: RelayCommand.count, attempt: 1 }));
+  });
+});
@@ -1,10 +1,11 @@
 import { NaCl } from '../nacl/nacl';
 import { Mailbox } from './mailbox';
-import { randomNumber, testRelayURL } from '../tests.helper';
+import { randomNumber, testRelayURL, setupMockRelays } from '../tests.helper';
 import { FileUploadMetadata } from '../zax.interface';
 import { CryptoStorage } from '../crypto-storage/crypto-storage';
 
 describe('Mailbox / File transfer', () => {
+  setupMockRelays();
 
   let Alice: Mailbox;
   let Bob: Mailbox;
@@ -0,0 +1,101 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { ZaxMessageKind, ZaxTextMessage } from '../zax.interface';
+import { Inbox } from './inbox';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Inbox', () => {
+  const mockRelay = new MockZaxRelay('https://inbox.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob', 'Charlie']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+  let Charlie: Mailbox;
+
+  const now = Date.now() / 1000;
+  const textMessage = (nonce: string, time: number, senderTag = 'Alice'): ZaxTextMessage =>
+    ({ data: nonce, time, senderTag, nonce, kind: ZaxMessageKind.message });
+
+  beforeAll(() => {
+    [Alice, Bob, Charlie] = mailboxes;
+  });
+
+  beforeEach(async () => {
+    await (await Bob.getInbox()).clear();
+  });
+
+  it('should keep synced messages after they are deleted from a relay', async () => {
+    await Alice.upload(url, 'Bob', 'hello');
+    await Charlie.upload(url, 'Bob', 'hi');
+
+    const added = await Bob.syncInbox(url);
+    expect(added.map(entry => entry.message.data)).toEqual(['hello', 'hi']);
+    expect(added.every(entry => entry.relay === url && !entry.read)).toBe(true);
+
+    await Bob.delete(url, added.map(entry => entry.message.nonce));
+    expect(await Bob.count(url)).toBe(0);
+
+    const inbox = await Bob.getInbox();
+    expect(inbox.size).toBe(2);
+    expect(inbox.query({ senderTag: 'Charlie' }).map(entry => entry.message.data)).toEqual(['hi']);
+  });
+
+  it('should not store messages twice', async () => {
+    await Alice.upload(url, 'Bob', 'once');
+    expect(await Bob.syncInbox(url)).toHaveLength(1);
+    expect(await Bob.syncInbox(url)).toHaveLength(0);
+    expect((await Bob.getInbox()).size).toBe(1);
+    await Bob.delete(url, (await Bob.getInbox()).query().map(entry => entry.message.nonce));
+  });
+
+  it('should track read state', async () => {
+    const inbox = await Bob.getInbox();
+    await inbox.add(url, [textMessage('n1', now - 2), textMessage('n2', now - 1)]);
+    expect(inbox.unreadCount).toBe(2);
+
+    await inbox.markRead(['n1']);
+    expect(inbox.get('n1')?.read).toBe(true);
+    expect(inbox.unreadCount).toBe(1);
+    expect(inbox.query({ unread: true }).map(entry => entry.message.nonce)).toEqual(['n2']);
+    expect(inbox.query({ unread: false }).map(entry => entry.message.nonce)).toEqual(['n1']);
+  });
+
+  it('should query by sender and time range', async () => {
+    const inbox = await Bob.getInbox();
+    await inbox.add(url, [
+      textMessage('n3', now - 30, 'Charlie'),
+      textMessage('n1', now - 50),
+      textMessage('n2', now - 40),
+      textMessage('n4', now - 20)
+    ]);
+    const nonces = (query: object) => inbox.query(query).map(entry => entry.message.nonce);
+
+    expect(nonces({})).toEqual(['n1', 'n2', 'n3', 'n4']);
+    expect(nonces({ senderTag: 'Alice' })).toEqual(['n1', 'n2', 'n4']);
+    expect(nonces({ since: now - 40, until: now - 30 })).toEqual(['n2', 'n3']);
+    expect(nonces({ senderTag: 'Alice', limit: 2 })).toEqual(['n2', 'n4']);
+  });
+
+  it('should drop the oldest messages by retention limits', async () => {
+    const inbox = await Inbox.load(Bob.keyRing.storage, { maxMessages: 2, maxAge: 60 * 1000 });
+    const added = await inbox.add(url, [
+      textMessage('expired', now - 120),
+      textMessage('n1', now - 30),
+      textMessage('n2', now - 20),
+      textMessage('n3', now - 10)
+    ]);
+    expect(added.map(entry => entry.message.nonce)).toEqual(['n2', 'n3']);
+    expect(inbox.query().map(entry => entry.message.nonce)).toEqual(['n2', 'n3']);
+  });
+
+  it('should restore history from storage', async () => {
+    const inbox = await Bob.getInbox();
+    await inbox.add(url, [textMessage('n1', now - 2), textMessage('n2', now - 1)]);
+    await inbox.markRead(['n2']);
+    await inbox.remove(['n1']);
+
+    const restored = await Inbox.load(Bob.keyRing.storage);
+    expect(restored.size).toBe(1);
+    expect(restored.get('n2')).toEqual({ message: textMessage('n2', now - 1), relay: url, read: true });
+  });
+});
@@ -1,11 +1,14 @@
 import { NaCl } from '../nacl/nacl';
 import { Mailbox } from './mailbox';
-import { testRelayURL } from '../tests.helper';
+import { testRelayURL, setupMockRelays } from '../tests.helper';
 import { MessageStatusResponse } from '../zax.interface';
 import { CryptoStorage } from '../crypto-storage/crypto-storage';
 import { config } from '../config';
+import { GlowUnknownGuestError } from '../errors';
 
 describe('Mailbox / Messages', () => {
+  setupMockRelays();
+
   let Alice: Mailbox;
   let Bob: Mailbox;
   let nonce: string;
@@ -26,7 +29,10 @@ describe('Mailbox / Messages', () => {
 
   it('send a message', async () => {
     const wrongRecipient = Alice.upload(testRelayURL, 'Carl', 'some message');
-    expect(wrongRecipient).rejects.toThrow(Error);
+    await expect(wrongRecipient).rejects.toBeInstanceOf(GlowUnknownGuestError);
+    await expect(wrongRecipient).rejects.toMatchObject({
+      code: 'UNKNOWN_GUEST', guest: 'Carl', relay: testRelayURL, command: 'upload'
+    });
 
     token = await Alice.upload(testRelayURL, 'Bob', 'some message');
     expect(token.length).toBeGreaterThan(0);
@@ -81,4 +87,23 @@ describe('Mailbox / Messages', () => {
     jest.clearAllTimers();
   });
 
+  it('should reconnect after a custom session TTL', async () => {
+    jest.useFakeTimers({
+      legacyFakeTimers: true,
+    });
+    Bob.configureRelay(testRelayURL, { sessionTimeout: 1000 });
+    await Bob.connectToRelay(testRelayURL);
+    const connectSpy = jest.spyOn(Bob, 'connectToRelay');
+
+    jest.advanceTimersByTime(999);
+    await Bob.download(testRelayURL);
+    expect(connectSpy).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(2);
+    await Bob.download(testRelayURL);
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+
+    jest.clearAllTimers();
+  });
+
 });
@@ -0,0 +1,205 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { GlowAbortError } from '../relay/abort-error';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { ZaxFileMessage, ZaxParsedMessage, ZaxTextMessage } from '../zax.interface';
+import { Outbox, OutboxItem, OutboxItemStatus } from './outbox';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Outbox', () => {
+  const mockRelay = new MockZaxRelay('https://outbox.zax', { maxChunkSize: 400 });
+  const url = mockRelay.url;
+  let offline = false;
+  let serverError = false;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+  let outbox: Outbox;
+
+  const texts = (messages: ZaxParsedMessage[]) => messages.map(message => (message as ZaxTextMessage).data);
+  const statuses = (items: OutboxItem[]) => items.map(item => item.status);
+
+  beforeAll(async () => {
+    [Alice, Bob] = mailboxes;
+    Alice.setRelayTransport({
+      send: async (request: RelayRequest) => {
+        if (offline) {
+          throw new GlowNetworkError(0);
+        }
+        if (serverError && request.url.endsWith('/command')) {
+          throw new GlowNetworkError(500);
+        }
+        return await mockRelay.send(request);
+      }
+    });
+    outbox = await Alice.getOutbox({ maxAttempts: 3, retryInterval: 10 });
+  });
+
+  beforeEach(async () => {
+    mockRelay.reset();
+    offline = false;
+    serverError = false;
+    for (const item of outbox.items()) {
+      await outbox.remove(item.id);
+    }
+  });
+
+  it('should keep messages queued while offline and send them in order', async () => {
+    offline = true;
+    const items = [];
+    for (const message of ['one', 'two', 'three']) {
+      items.push(await outbox.enqueueMessage(url, 'Bob', message));
+    }
+    expect(await outbox.flush()).toEqual([]);
+    expect(statuses(outbox.items())).toEqual(['queued', 'queued', 'queued']);
+    expect(items.map(item => item.attempts)).toEqual([1, 0, 0]);
+    expect(items[0].error).toBeDefined();
+
+    offline = false;
+    expect(await outbox.flush()).toEqual(items);
+    expect(statuses(items)).toEqual(['sent', 'sent', 'sent']);
+    expect(items.every(item => item.token)).toBe(true);
+    expect(texts(await Bob.download(url))).toEqual(['one', 'two', 'three']);
+  });
+
+  it('should report status changes', async () => {
+    const changes: OutboxItemStatus[] = [];
+    const off = outbox.on('status', item => changes.push(item.status));
+    await outbox.enqueueMessage(url, 'Bob', 'hello');
+    await outbox.flush();
+    expect(changes).toEqual(['queued', 'sending', 'sent']);
+    off();
+  });
+
+  it('should fail items after non-network errors and retry limits', async () => {
+    const unknownGuest = await outbox.enqueueMessage(url, 'Mallory', 'hello');
+    await outbox.flush();
+    expect(unknownGuest.status).toBe('failed');
+
+    offline = true;
+    const item = await outbox.enqueueMessage(url, 'Bob', 'hello');
+    for (let i = 0; i < 3; i++) {
+      await outbox.flush();
+    }
+    expect(item).toMatchObject({ status: 'failed', attempts: 3 });
+
+    offline = false;
+    await outbox.retry(item.id);
+    await outbox.flush();
+    expect(item.status).toBe('sent');
+  });
+
+  it('should not send messages again after server errors', async () => {
+    serverError = true;
+    const item = await outbox.enqueueMessage(url, 'Bob', 'hello');
+    await outbox.flush();
+    // the relay may have stored the message before failing
+    expect(item).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('should keep the queue in storage', async () => {
+    offline = true;
+    const item = await outbox.enqueueMessage(url, 'Bob', 'hello');
+    await outbox.flush();
+
+    const restored = await Outbox.load(Alice.keyRing.storage, async () => 'token');
+    expect(restored.items()).toEqual([item]);
+    expect(await restored.flush()).toMatchObject([{ status: 'sent', token: 'token' }]);
+  });
+
+  it('should remove sent items from the queue', async () => {
+    const item = await outbox.enqueueMessage(url, 'Bob', 'hello');
+    expect(await outbox.flush()).toEqual([item]);
+    expect(outbox.items()).toEqual([]);
+    expect((await Outbox.load(Alice.keyRing.storage, async () => 'token')).items()).toEqual([]);
+  });
+
+  it('should keep queued files apart from the queue', async () => {
+    offline = true;
+    const file = new Uint8Array(1000).map((_, i) => i % 256);
+    const item = await outbox.enqueueFile(url, 'Bob', { name: 'test.bin', orig_size: file.length }, file);
+    await outbox.flush();
+
+    const saved = await Alice.keyRing.storage.get<OutboxItem[]>(Outbox.storageTag);
+    expect(saved).toEqual([{ ...item, file: undefined }]);
+    const restored = await Outbox.load(Alice.keyRing.storage, async () => 'token');
+    expect(restored.items()).toEqual([item]);
+
+    await outbox.remove(item.id);
+    expect(await Alice.keyRing.storage.get(`${Outbox.fileTag}.${item.id}`)).toBeNull();
+  });
+
+  it('should stop waiting for a flush in progress when aborted', async () => {
+    let release = () => undefined as void;
+    const released = new Promise<void>(resolve => release = resolve);
+    await outbox.enqueueMessage(url, 'Bob', 'hello');
+    const restored = await Outbox.load(Alice.keyRing.storage, async () => {
+      await released;
+      return 'token';
+    });
+    const flushing = restored.flush();
+
+    const controller = new AbortController();
+    const waiting = restored.flush(controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow(GlowAbortError);
+    release();
+    expect(await flushing).toHaveLength(1);
+  });
+
+  it('should upload queued files', async () => {
+    const file = new Uint8Array(1000).map((_, i) => i % 256);
+    const item = await outbox.enqueueFile(url, 'Bob', { name: 'test.bin', orig_size: file.length }, file);
+    await outbox.flush();
+    expect(item.status).toBe('sent');
+
+    const [message] = await Bob.download(url) as ZaxFileMessage[];
+    expect(message.data.name).toBe('test.bin');
+    expect(await Bob.getFileStatus(url, message.uploadID)).toMatchObject({ status: 'COMPLETE', file_size: 1000 });
+  });
+
+  it('should resume file uploads after a failed chunk', async () => {
+    const uploadFileChunk = Alice.uploadFileChunk.bind(Alice);
+    const chunkSpy = jest.spyOn(Alice, 'uploadFileChunk')
+      .mockImplementationOnce(uploadFileChunk)
+      .mockRejectedValueOnce(new GlowNetworkError(500));
+    const file = new Uint8Array(1000).map((_, i) => i % 256);
+    const item = await outbox.enqueueFile(url, 'Bob', { name: 'test.bin', orig_size: file.length }, file);
+    await outbox.flush();
+    expect(item).toMatchObject({ status: 'queued', attempts: 1, upload: { nextPart: 1 } });
+
+    await outbox.flush();
+    expect(item.status).toBe('sent');
+    expect(chunkSpy.mock.calls.map(([, , , part]) => part)).toEqual([0, 1, 1, 2]);
+    chunkSpy.mockRestore();
+
+    // the recipient gets one file message with the complete file
+    const messages = await Bob.download(url) as ZaxFileMessage[];
+    expect(messages).toHaveLength(1);
+    const { uploadID, data } = messages[0];
+    const chunks = [];
+    for (let part = 0; part < 3; part++) {
+      chunks.push(...await Bob.downloadFileChunk(url, uploadID, part, data.skey as string) ?? []);
+    }
+    expect(new Uint8Array(chunks)).toEqual(file);
+  });
+
+  it('should send items automatically when started', async () => {
+    offline = true;
+    outbox.start();
+    const item = await outbox.enqueueMessage(url, 'Bob', 'hello');
+    const sent = new Promise<void>(resolve => {
+      const off = outbox.on('status', changed => {
+        if (changed === item && changed.status === 'sent') {
+          off();
+          resolve();
+        }
+      });
+    });
+    offline = false;
+    await sent;
+    outbox.stop();
+    expect(texts(await Bob.download(url))).toEqual(['hello']);
+  });
+});
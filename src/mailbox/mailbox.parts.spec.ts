@@ -0,0 +1,128 @@
+import { config } from '../config';
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { ZaxMessageKind, ZaxParsedMessage, ZaxTextMessage } from '../zax.interface';
+import { MessageAssembler, parseMessagePart, splitMessage } from './message-parts';
+import { restoreConfig, setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Message parts', () => {
+  const mockRelay = new MockZaxRelay('https://parts.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  const texts = (messages: ZaxParsedMessage[]) => messages.map(message => (message as ZaxTextMessage).data);
+  const longMessage = JSON.stringify({ items: Array.from({ length: 20 }, (_, i) => `item ${i}`) });
+
+  restoreConfig();
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+  });
+
+  beforeEach(() => {
+    mockRelay.reset();
+    Alice.setMessageMaxSize(64);
+  });
+
+  it('should split oversized messages and join them on download', async () => {
+    await Alice.upload(url, 'Bob', longMessage);
+    expect(await Bob.count(url)).toBe(Math.ceil(longMessage.length / 64));
+
+    const messages = await Bob.download(url);
+    expect(texts(messages)).toEqual([longMessage]);
+    expect(await Bob.delete(url, [messages[0].nonce])).toBe(0);
+  });
+
+  it('should send short messages as is', async () => {
+    await Alice.upload(url, 'Bob', 'short');
+    expect(await Bob.count(url)).toBe(1);
+    expect(texts(await Bob.download(url))).toEqual(['short']);
+  });
+
+  it('should measure messages in UTF-8 bytes', async () => {
+    // 30 characters of 3 bytes each exceed 64 bytes
+    const message = '€'.repeat(30);
+    await Alice.upload(url, 'Bob', message);
+    expect(await Bob.count(url)).toBe(2);
+    expect(texts(await Bob.download(url))).toEqual([message]);
+
+    const parts = splitMessage('id', '😀'.repeat(5), 6).map(part => parseMessagePart(part)?.data);
+    expect(parts).toEqual(['😀', '😀', '😀', '😀', '😀']);
+  });
+
+  it('should hold incomplete messages until all parts arrive', async () => {
+    // parts are uploaded one by one as regular messages
+    Alice.setMessageMaxSize(config.MESSAGE_MAX_SIZE);
+    const parts = splitMessage('id', longMessage, 32);
+    for (const part of parts.slice(1)) {
+      await Alice.upload(url, 'Bob', part);
+    }
+    await Alice.upload(url, 'Bob', 'other');
+    expect(texts(await Bob.download(url))).toEqual(['other']);
+
+    await Alice.upload(url, 'Bob', parts[0]);
+    expect(texts(await Bob.download(url))).toEqual(['other', longMessage]);
+  });
+
+  it('should drop expired parts', async () => {
+    Alice.setMessageMaxSize(config.MESSAGE_MAX_SIZE);
+    const parts = splitMessage('id', longMessage, 32);
+    await Alice.upload(url, 'Bob', parts[0]);
+    await Bob.download(url);
+
+    config.MESSAGE_PARTS_TTL = -1000;
+    for (const part of parts.slice(1)) {
+      await Alice.upload(url, 'Bob', part);
+    }
+    expect(await Bob.download(url)).toEqual([]);
+  });
+
+  it('should delete all parts of processed messages', async () => {
+    await Alice.upload(url, 'Bob', longMessage);
+    const handled: ZaxParsedMessage[] = [];
+    const result = await Bob.processMessages(url, message => {
+      handled.push(message);
+    });
+    expect(texts(handled)).toEqual([longMessage]);
+    expect(result).toEqual({ handled: 1, skipped: 0, remaining: 0 });
+  });
+
+  it('should not join parts that were not encrypted', async () => {
+    Alice.setMessageMaxSize(config.MESSAGE_MAX_SIZE);
+    const parts = splitMessage('id', longMessage, 32);
+    for (const part of parts) {
+      await Alice.upload(url, 'Bob', part, false);
+    }
+    const messages = await Bob.download(url);
+    expect(messages.map(message => message.kind)).toEqual(parts.map(() => ZaxMessageKind.unencrypted));
+    expect(texts(messages)).toEqual(parts);
+  });
+
+  it('should not split messages that are not encrypted', async () => {
+    await Alice.upload(url, 'Bob', longMessage, false);
+    expect(await Bob.count(url)).toBe(1);
+    expect(texts(await Bob.download(url))).toEqual([longMessage]);
+  });
+
+  it('should forget part nonces once they are deleted', () => {
+    const assembler = new MessageAssembler();
+    const time = Date.now() / 1000;
+    const joined = splitMessage('id', 'abc', 2).map((data, i) => {
+      const message: ZaxTextMessage = {
+        data, time, senderTag: 'tag', nonce: `nonce${i}`, kind: ZaxMessageKind.message
+      };
+      return assembler.add(message, parseMessagePart(data)!);
+    });
+    expect(joined[1]?.data).toBe('abc');
+    expect(assembler.expandNonces(['nonce0', 'other'])).toEqual(['nonce0', 'nonce1', 'other']);
+    expect(assembler.expandNonces(['nonce0'])).toEqual(['nonce0']);
+  });
+
+  it('should not treat app messages as parts', () => {
+    expect(parseMessagePart(longMessage)).toBeNull();
+    expect(parseMessagePart('{"$glowPart": 1}')).toBeNull();
+    expect(parseMessagePart(splitMessage('id', 'abc', 2)[1])).toEqual({ id: 'id', index: 1, total: 2, data: 'c' });
+  });
+});
@@ -0,0 +1,101 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { ZaxMessageKind, ZaxTextMessage } from '../zax.interface';
+import { ReceiptTracker, receiptContentType } from './receipts';
+import { serializeEnvelope } from './message-envelope';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Receipts', () => {
+  const mockRelay = new MockZaxRelay('https://receipts.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob', 'Charlie']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+  let Charlie: Mailbox;
+
+  beforeAll(async () => {
+    [Alice, Bob, Charlie] = mailboxes;
+    await Alice.setReceipts(true);
+    await Bob.setReceipts(true);
+  });
+
+  beforeEach(() => {
+    mockRelay.reset();
+  });
+
+  it('should track sent messages', async () => {
+    const token = await Alice.upload(url, 'Bob', 'hello');
+    expect(await Alice.getReceipt(token)).toEqual({
+      nonce: expect.any(String), token, guest: 'Bob', status: 'sent', sentAt: expect.any(Number)
+    });
+  });
+
+  it('should confirm processed messages with delivered receipts', async () => {
+    const token = await Alice.upload(url, 'Bob', 'hello');
+    await Bob.processMessages(url, () => undefined);
+
+    expect(await Alice.count(url)).toBe(1);
+    expect(await Alice.download(url)).toEqual([]);
+    expect(await Alice.count(url)).toBe(0);
+    const receipt = await Alice.getReceipt(token);
+    expect(receipt?.status).toBe('delivered');
+    expect(receipt?.deliveredAt).toBeGreaterThanOrEqual(receipt?.sentAt as number);
+  });
+
+  it('should apply read receipts', async () => {
+    const token = await Alice.upload(url, 'Bob', 'hello');
+    const [message] = await Bob.download(url) as ZaxTextMessage[];
+    await Bob.sendReadReceipt(url, message);
+    await Alice.download(url);
+
+    const receipt = await Alice.getReceipt(token);
+    expect(receipt?.status).toBe('read');
+    expect(receipt?.readAt).toBeDefined();
+
+    // a late delivered receipt doesn't move the message back
+    await Bob.processMessages(url, () => undefined);
+    await Alice.download(url);
+    expect((await Alice.getReceipt(token))?.status).toBe('read');
+  });
+
+  it('should persist receipt state', async () => {
+    const token = await Alice.upload(url, 'Bob', 'hello');
+    await Bob.processMessages(url, () => undefined);
+    await Alice.download(url);
+
+    const tracker = await ReceiptTracker.load(Alice.keyRing.storage);
+    expect(tracker.get(token)?.status).toBe('delivered');
+    expect((await Alice.getReceipts('Bob')).length).toBeGreaterThan(0);
+  });
+
+  it('should not send receipts unless enabled', async () => {
+    const token = await Alice.upload(url, 'Charlie', 'hello');
+    await Charlie.processMessages(url, () => undefined);
+    expect(await Alice.count(url)).toBe(0);
+    expect((await Alice.getReceipt(token))?.status).toBe('sent');
+  });
+
+  it('should ignore receipts from other guests', async () => {
+    const token = await Alice.upload(url, 'Bob', 'hello');
+    const { nonce } = await Alice.getReceipt(token) ?? {};
+    await Charlie.setReceipts(true);
+    await Charlie.sendReadReceipt(url, { nonce, senderTag: 'Alice' } as ZaxTextMessage);
+    await Charlie.setReceipts(false);
+
+    await Alice.download(url);
+    expect((await Alice.getReceipt(token))?.status).toBe('sent');
+  });
+
+  it('should not apply receipts that were not encrypted', async () => {
+    const token = await Alice.upload(url, 'Bob', 'hello');
+    const { nonce } = await Alice.getReceipt(token) ?? {};
+    const receipt = serializeEnvelope({
+      version: 1, contentType: receiptContentType, id: 'id', createdAt: Date.now(), payload: { nonce, status: 'read' }
+    });
+    await Bob.upload(url, 'Alice', receipt, false);
+
+    const [message] = await Alice.download(url);
+    expect(message.kind).toBe(ZaxMessageKind.unencrypted);
+    expect((await Alice.getReceipt(token))?.status).toBe('sent');
+  });
+});
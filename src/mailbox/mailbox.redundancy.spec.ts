@@ -0,0 +1,93 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { GlowReplicationError } from '../errors';
+import { RelaySet } from './relay-set';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Multiple relays', () => {
+  const mockRelays = ['https://a.zax', 'https://b.zax', 'https://c.zax'].map(url => new MockZaxRelay(url));
+  const downRelays = new Set<string>();
+  const rejectingRelays = new Set<string>();
+  const [relayA, relayB, relayC] = mockRelays.map(relay => relay.url);
+
+  const mailboxes = setupMockMailboxes(mockRelays, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+    const transport = {
+      send: async (request: RelayRequest) => {
+        const relay = mockRelays.find(mock => request.url.startsWith(mock.url));
+        if (!relay || downRelays.has(relay.url)) {
+          throw new GlowNetworkError(0);
+        }
+        if (rejectingRelays.has(relay.url) && request.url.endsWith('/command')) {
+          throw new GlowNetworkError(400);
+        }
+        return await relay.send(request);
+      }
+    };
+    [Alice, Bob].forEach(mailbox => mailbox.setRelayTransport(transport));
+  });
+
+  beforeEach(() => {
+    mockRelays.forEach(relay => relay.reset());
+    downRelays.clear();
+    rejectingRelays.clear();
+  });
+
+  it('should upload a message to several relays', async () => {
+    const relays = new RelaySet([relayA, relayB, relayC], { redundancy: 2 });
+    const tokens = await Alice.uploadToRelays(relays, 'Bob', 'redundant');
+    expect(Object.keys(tokens)).toEqual([relayA, relayB]);
+  });
+
+  it('should replace an unavailable relay on upload', async () => {
+    downRelays.add(relayA);
+    const relays = new RelaySet([relayA, relayB, relayC], { redundancy: 2 });
+    const tokens = await Alice.uploadToRelays(relays, 'Bob', 'redundant');
+    expect(Object.keys(tokens).sort()).toEqual([relayB, relayC]);
+    expect(relays.isHealthy(relayA)).toBe(false);
+  });
+
+  it('should merge and dedupe downloaded messages', async () => {
+    const relays = new RelaySet([relayA, relayB, relayC], { redundancy: 3 });
+    await Alice.uploadToRelays(relays, 'Bob', 'everywhere');
+    await Alice.upload(relayC, 'Bob', 'only on C');
+
+    downRelays.add(relayB);
+    const messages = await Bob.downloadFromRelays(relays);
+    expect(messages.map(message => message.data).sort()).toEqual(['everywhere', 'only on C']);
+
+    downRelays.clear();
+    const remaining = await Bob.deleteFromRelays(relays, messages.map(message => message.nonce));
+    expect(remaining).toEqual({ [relayA]: 0, [relayB]: 0, [relayC]: 0 });
+  });
+
+  it('should fail when all relays are unavailable', async () => {
+    mockRelays.forEach(relay => downRelays.add(relay.url));
+    const relays = new RelaySet([relayA, relayB]);
+    await expect(Bob.downloadFromRelays(relays)).rejects.toEqual(new GlowNetworkError(0));
+  });
+
+  it('should keep tokens of relays that stored a message rejected by another relay', async () => {
+    rejectingRelays.add(relayB);
+    const relays = new RelaySet([relayA, relayB, relayC], { redundancy: 2 });
+    const error = await Alice.uploadToRelays(relays, 'Bob', 'redundant').catch(err => err);
+    expect(error).toBeInstanceOf(GlowReplicationError);
+    expect([...error.results.keys()]).toEqual([relayA]);
+    expect(await Bob.count(relayA)).toBe(1);
+  });
+
+  it('should run commands on a healthy relay with failover', async () => {
+    const token = await Alice.upload(relayB, 'Bob', 'on B');
+    downRelays.add(relayA);
+    const relays = new RelaySet([relayA, relayB, relayC]);
+    expect(await relays.failover(url => Bob.count(url))).toBe(1);
+    expect(relays.isHealthy(relayA)).toBe(false);
+    expect(await relays.failover(url => Alice.messageStatus(url, token))).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { NaCl } from '../nacl/nacl';
+import { EncryptedMessage } from '../nacl/nacl-driver.interface';
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { RelayCommand, ZaxMessageKind, ZaxParsedMessage } from '../zax.interface';
+import { Utils } from '../utils/utils';
+import { ReplayGuard } from './replay-guard';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Replay guard', () => {
+  const mockRelay = new MockZaxRelay('https://replay.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  const kinds = (messages: ZaxParsedMessage[]) => messages.map(message => message.kind);
+
+  // stores a ciphertext on a relay once again, as a malicious relay would do
+  async function uploadCiphertext(payload: EncryptedMessage) {
+    const to = Utils.toBase64(await NaCl.getInstance().h2(Utils.fromBase64(Bob.keyRing.getPubCommKey())));
+    await Alice.runCustomCommand(url, RelayCommand.upload, { to, payload });
+  }
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+  });
+
+  beforeEach(async () => {
+    mockRelay.reset();
+    await Bob.setReplayGuard(true);
+  });
+
+  it('should accept messages downloaded again', async () => {
+    await Alice.upload(url, 'Bob', 'hello');
+    expect(kinds(await Bob.download(url))).toEqual([ZaxMessageKind.message]);
+    expect(kinds(await Bob.download(url))).toEqual([ZaxMessageKind.message]);
+  });
+
+  it('should reject replayed ciphertexts', async () => {
+    const payload = await Alice.encodeMessage('Bob', 'pay 10 coins');
+    await uploadCiphertext(payload);
+    const [message] = await Bob.download(url);
+    await Bob.delete(url, [message.nonce]);
+
+    await uploadCiphertext(payload);
+    const [replayed] = await Bob.download(url);
+    expect(replayed).toEqual({
+      data: payload.ctext,
+      time: expect.any(Number),
+      senderTag: 'Alice',
+      nonce: payload.nonce,
+      kind: ZaxMessageKind.rejected,
+      reason: 'replayed'
+    });
+  });
+
+  it('should reject messages outside of the acceptance window', async () => {
+    await Alice.upload(url, 'Bob', 'hello');
+    await Bob.setReplayGuard(true, { window: -60 * 1000 });
+    const [message] = await Bob.download(url);
+    expect(message.kind).toBe(ZaxMessageKind.rejected);
+    expect(message.kind === ZaxMessageKind.rejected && message.reason).toBe('outOfWindow');
+
+    await Bob.setReplayGuard(true, { clockSkew: -60 * 1000 });
+    expect(kinds(await Bob.download(url))).toEqual([ZaxMessageKind.rejected]);
+  });
+
+  it('should remember seen nonces in storage', async () => {
+    const payload = await Alice.encodeMessage('Bob', 'hello');
+    await uploadCiphertext(payload);
+    await Bob.download(url);
+    mockRelay.reset();
+
+    // a new guard instance still recognizes the replay
+    await Bob.setReplayGuard(true);
+    await uploadCiphertext(payload);
+    expect(kinds(await Bob.download(url))).toEqual([ZaxMessageKind.rejected]);
+
+    const guard = await ReplayGuard.load(Bob.keyRing.storage, { cacheSize: 1 });
+    expect(guard.check('Alice', url, payload.nonce, 0)).toBe('replayed');
+  });
+
+  it('should flag messages that can not be decrypted', async () => {
+    const payload = await Alice.encodeMessage('Bob', 'hello');
+    await uploadCiphertext({ ...payload, ctext: payload.ctext.replace(/^./, c => c === 'A' ? 'B' : 'A') });
+    await Alice.upload(url, 'Bob', 'plain text', false);
+    await Alice.upload(url, 'Bob', 'plain text', false);
+    expect(kinds(await Bob.download(url))).toEqual([
+      ZaxMessageKind.unencrypted, ZaxMessageKind.unencrypted, ZaxMessageKind.unencrypted
+    ]);
+  });
+
+  it('should accept replays when disabled', async () => {
+    await Bob.setReplayGuard(false);
+    const payload = await Alice.encodeMessage('Bob', 'hello');
+    await uploadCiphertext(payload);
+    await uploadCiphertext(payload);
+    expect(kinds(await Bob.download(url))).toEqual([ZaxMessageKind.message, ZaxMessageKind.message]);
+  });
+});
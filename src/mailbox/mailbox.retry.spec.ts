@@ -0,0 +1,123 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { GlowAbortError } from '../relay/abort-error';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { RetryEvent } from './retry-policy';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Retries', () => {
+  const url = 'https://retry.zax';
+  const mockRelay = new MockZaxRelay(url);
+  // statuses of upcoming command failures, consumed one per command request
+  let failures: number[] = [];
+  let commandRequests = 0;
+  let retries: RetryEvent[] = [];
+
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+    const flakyTransport = {
+      send: async (request: RelayRequest) => {
+        if (request.url.endsWith('/command')) {
+          commandRequests++;
+          const status = failures.shift();
+          if (status !== undefined) {
+            throw new GlowNetworkError(status);
+          }
+        }
+        return await mockRelay.send(request);
+      }
+    };
+    for (const mailbox of [Alice, Bob]) {
+      mailbox.setRelayTransport(flakyTransport);
+      mailbox.setRetryPolicy({ baseDelay: 1, maxDelay: 5, onRetry: event => retries.push(event) });
+    }
+  });
+
+  beforeEach(() => {
+    mockRelay.reset();
+    failures = [];
+    commandRequests = 0;
+    retries = [];
+  });
+
+  it('should retry transient errors with backoff', async () => {
+    await Alice.connectToRelay(url);
+    failures = [503, 0];
+    expect(await Alice.count(url)).toBe(0);
+    expect(commandRequests).toBe(3);
+    expect(retries.map(event => [event.attempt, event.error.status])).toEqual([[1, 503], [2, 0]]);
+  });
+
+  it('should abort a pending retry right away', async () => {
+    await Alice.connectToRelay(url);
+    const controller = new AbortController();
+    Alice.setRetryPolicy({
+      baseDelay: 60 * 1000, maxDelay: 60 * 1000, onRetry: () => setTimeout(() => controller.abort(), 10)
+    });
+    failures = [503];
+    const started = Date.now();
+    await expect(Alice.count(url, controller.signal)).rejects.toThrow(GlowAbortError);
+    expect(Date.now() - started).toBeLessThan(1000);
+    Alice.setRetryPolicy({ baseDelay: 1, maxDelay: 5, onRetry: event => retries.push(event) });
+  });
+
+  it('should give up after max attempts', async () => {
+    await Alice.connectToRelay(url);
+    failures = [408, 408, 408, 408];
+    const error = await Alice.count(url).catch(err => err);
+    expect(error).toBeInstanceOf(GlowNetworkError);
+    expect(error.status).toBe(408);
+    expect(error.attempts).toBe(3);
+    expect(commandRequests).toBe(3);
+  });
+
+  it('should not retry client errors', async () => {
+    await Alice.connectToRelay(url);
+    failures = [400];
+    const error = await Alice.count(url).catch(err => err);
+    expect(error.attempts).toBe(1);
+    expect(retries).toHaveLength(0);
+  });
+
+  it('should reconnect and replay a command once after 401', async () => {
+    await Alice.connectToRelay(url);
+    const connectSpy = jest.spyOn(Alice, 'connectToRelay');
+    mockRelay.expireSessions();
+
+    await Alice.upload(url, 'Bob', 'after reconnect');
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+    expect(retries).toHaveLength(1);
+    expect(retries[0].delay).toBe(0);
+
+    const messages = await Bob.download(url);
+    expect(messages.map(message => message.data)).toEqual(['after reconnect']);
+    connectSpy.mockRestore();
+  });
+
+  it('should not replay a command after a repeated 401', async () => {
+    await Alice.connectToRelay(url);
+    failures = [401, 401];
+    const error = await Alice.count(url).catch(err => err);
+    expect(error.status).toBe(401);
+    expect(error.attempts).toBe(2);
+  });
+
+  it('should not retry non-idempotent commands on transient errors by default', async () => {
+    await Alice.connectToRelay(url);
+    failures = [503];
+    const error = await Alice.upload(url, 'Bob', 'maybe delivered').catch(err => err);
+    expect(error.status).toBe(503);
+    expect(error.attempts).toBe(1);
+
+    Alice.setRetryPolicy({ retryNonIdempotent: true });
+    failures = [503];
+    await Alice.upload(url, 'Bob', 'delivered');
+    expect(retries).toHaveLength(1);
+    Alice.setRetryPolicy({ retryNonIdempotent: false });
+  });
+});
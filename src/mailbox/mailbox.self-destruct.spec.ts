@@ -0,0 +1,43 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Self-destruct', () => {
+  const mockRelay = new MockZaxRelay('https://self-destruct.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+  });
+
+  it('should remove all records of a Mailbox', async () => {
+    await Alice.setSessionPersistence(true);
+    await Alice.setReceipts(true);
+    await Alice.setSequencing(true);
+    await Alice.setReplayGuard(true);
+    await Alice.upload(url, 'Bob', 'sent');
+    await (await Alice.getOutbox()).enqueueMessage(url, 'Bob', 'queued');
+
+    await Bob.upload(url, 'Alice', 'one');
+    await Bob.upload(url, 'Alice', 'two');
+    await Alice.syncInbox(url);
+    // processed nonces are left in the storage if processing is interrupted
+    const controller = new AbortController();
+    await expect(Alice.processMessages(url, () => controller.abort(), controller.signal)).rejects.toThrow();
+
+    await Alice.selfDestruct();
+
+    const recreated = await Mailbox.new('Alice');
+    recreated.setRelayTransport(mockRelay);
+    await recreated.setSessionPersistence(true);
+    expect((await recreated.getInbox()).size).toBe(0);
+    expect((await recreated.getOutbox()).items()).toEqual([]);
+    await recreated.setReceipts(true);
+    await recreated.setSequencing(true);
+    await recreated.setReplayGuard(true);
+    expect(await recreated.processMessages(url, () => undefined)).toEqual({ handled: 0, skipped: 0, remaining: 0 });
+  });
+});
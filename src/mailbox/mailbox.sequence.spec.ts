@@ -0,0 +1,123 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { ZaxMessageKind, ZaxParsedMessage, ZaxTextMessage } from '../zax.interface';
+import { SequenceTracker, wrapSequenced } from './sequence';
+import { addGuests, setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Sequencing', () => {
+  const mockRelay = new MockZaxRelay('https://sequence.zax');
+  const url = mockRelay.url;
+  let relayDown = false;
+  let senders = 0;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  const texts = (messages: ZaxParsedMessage[]) => messages.map(message => (message as ZaxTextMessage).data);
+  const seqs = (messages: ZaxParsedMessage[]) => messages.map(message => (message as ZaxTextMessage).seq);
+
+  beforeAll(() => {
+    [Bob] = mailboxes;
+  });
+
+  beforeEach(async () => {
+    mockRelay.reset();
+    relayDown = false;
+    // every test starts a conversation with a new sender
+    Alice = await Mailbox.new(`Alice${++senders}`);
+    await addGuests([Alice, Bob]);
+    Alice.setRelayTransport({
+      send: async (request: RelayRequest) => {
+        if (relayDown && request.url.endsWith('/command')) {
+          throw new GlowNetworkError(500);
+        }
+        return await mockRelay.send(request);
+      }
+    });
+    Alice.setRetryPolicy({ maxAttempts: 1 });
+  });
+
+  it('should number messages per guest', async () => {
+    await Alice.setSequencing(true);
+    for (const message of ['one', 'two', 'three']) {
+      await Alice.upload(url, 'Bob', message);
+    }
+    await Alice.sendObject(url, 'Bob', 'app/note', 'four');
+
+    const messages = await Bob.download(url);
+    expect(texts(messages.slice(0, 3))).toEqual(['one', 'two', 'three']);
+    expect(seqs(messages)).toEqual([1, 2, 3, 4]);
+    expect((messages[3] as ZaxTextMessage).envelope?.payload).toBe('four');
+  });
+
+  it('should order messages of a sender by sequence number', async () => {
+    for (const seq of [3, 1, 2]) {
+      await Alice.upload(url, 'Bob', wrapSequenced(seq, `message ${seq}`));
+    }
+    expect(texts(await Bob.download(url))).toEqual(['message 1', 'message 2', 'message 3']);
+  });
+
+  it('should report gaps once', async () => {
+    const gaps: [string, number[]][] = [];
+    const off = Bob.on('sequenceGap', (gapUrl, senderTag, missing) => gaps.push([senderTag, missing]));
+    await Alice.upload(url, 'Bob', wrapSequenced(1, 'one'));
+    await Alice.upload(url, 'Bob', wrapSequenced(4, 'four'));
+
+    await Bob.download(url);
+    await Bob.download(url);
+    expect(gaps).toEqual([[Alice.identity, [2, 3]]]);
+
+    // a late message fills the gap silently
+    await Alice.upload(url, 'Bob', wrapSequenced(2, 'two'));
+    expect(texts(await Bob.download(url))).toEqual(['one', 'two', 'four']);
+    expect(gaps).toHaveLength(1);
+    off();
+  });
+
+  it('should report duplicates', async () => {
+    const duplicates: ZaxTextMessage[] = [];
+    const off = Bob.on('sequenceDuplicate', (duplicateUrl, message) => duplicates.push(message));
+    await Alice.upload(url, 'Bob', wrapSequenced(1, 'one'));
+    await Bob.download(url);
+    await Alice.upload(url, 'Bob', wrapSequenced(1, 'one again'));
+
+    expect(texts(await Bob.download(url))).toEqual(['one', 'one again']);
+    expect(texts(duplicates)).toEqual(['one again']);
+    off();
+  });
+
+  it('should persist counters and release them after failed uploads', async () => {
+    await Alice.setSequencing(true);
+    await Alice.upload(url, 'Bob', 'one');
+    relayDown = true;
+    await expect(Alice.upload(url, 'Bob', 'lost')).rejects.toThrow(GlowNetworkError);
+    relayDown = false;
+    await Alice.upload(url, 'Bob', 'two');
+
+    expect(seqs(await Bob.download(url))).toEqual([1, 2]);
+    const tracker = await SequenceTracker.load(Alice.keyRing.storage);
+    expect(await tracker.next('Bob')).toBe(3);
+  });
+
+  it('should not sequence messages that were not encrypted', async () => {
+    const gaps: number[][] = [];
+    const off = Bob.on('sequenceGap', (gapUrl, senderTag, missing) => gaps.push(missing));
+    await Alice.upload(url, 'Bob', wrapSequenced(1, 'one'));
+    await Alice.upload(url, 'Bob', wrapSequenced(5, 'forged'), false);
+
+    const messages = await Bob.download(url);
+    expect(messages.map(message => message.kind)).toEqual([ZaxMessageKind.message, ZaxMessageKind.unencrypted]);
+    expect(seqs(messages)).toEqual([1, undefined]);
+    expect(gaps).toEqual([]);
+    off();
+  });
+
+  it('should not number messages unless enabled', async () => {
+    await Alice.upload(url, 'Bob', 'plain');
+    const [message] = await Bob.download(url) as ZaxTextMessage[];
+    expect(message.data).toBe('plain');
+    expect(message.seq).toBeUndefined();
+  });
+});
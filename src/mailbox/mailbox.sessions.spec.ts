@@ -0,0 +1,120 @@
+import { config } from '../config';
+import { CryptoStorage } from '../crypto-storage/crypto-storage';
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { RelayRequest } from '../relay/relay-transport.interface';
+import { Utils } from '../utils/utils';
+import { setupMockStorage } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Session persistence', () => {
+  const mockRelay = new MockZaxRelay('https://sessions.zax');
+  const url = mockRelay.url;
+  let endpoints: string[] = [];
+
+  const transport = {
+    send: (request: RelayRequest) => {
+      endpoints.push(request.url.slice(url.length + 1));
+      return mockRelay.send(request);
+    }
+  };
+
+  // a Mailbox instance of the same identity, as after a page reload
+  async function reload(identity: string, persist = true) {
+    const mailbox = await Mailbox.new(identity);
+    mailbox.setRelayTransport(transport);
+    await mailbox.setSessionPersistence(persist);
+    return mailbox;
+  }
+
+  setupMockStorage();
+
+  beforeEach(() => {
+    mockRelay.reset();
+    endpoints = [];
+  });
+
+  it('should resume a saved session without a handshake', async () => {
+    const Alice = await reload('Alice');
+    await Alice.connectToRelay(url);
+
+    endpoints = [];
+    const reloaded = await reload('Alice');
+    expect(await reloaded.count(url)).toBe(0);
+    expect(endpoints).toEqual(['command']);
+  });
+
+  it('should not save sessions unless enabled', async () => {
+    const Bob = await reload('Bob', false);
+    await Bob.connectToRelay(url);
+
+    endpoints = [];
+    const reloaded = await reload('Bob');
+    await reloaded.count(url);
+    expect(endpoints).toEqual(['start_session', 'verify_session', 'prove', 'command']);
+  });
+
+  it('should not resume a session after it is cleared', async () => {
+    const Erin = await reload('Erin');
+    await Erin.connectToRelay(url);
+    Erin.clearSession(url);
+    await Erin.clearSavedSession(url);
+
+    endpoints = [];
+    const reloaded = await reload('Erin');
+    await reloaded.count(url);
+    expect(endpoints).toEqual(['start_session', 'verify_session', 'prove', 'command']);
+  });
+
+  it('should make a new handshake when a saved session has expired', async () => {
+    const Carol = await reload('Carol');
+    Carol.configureRelay(url, { sessionTimeout: 10 });
+    await Carol.connectToRelay(url);
+    await Utils.delay(20);
+
+    endpoints = [];
+    const reloaded = await reload('Carol');
+    await reloaded.count(url);
+    expect(endpoints).toEqual(['start_session', 'verify_session', 'prove', 'command']);
+  });
+
+  it('should replace a saved session rejected by a relay', async () => {
+    const Dave = await reload('Dave');
+    await Dave.connectToRelay(url);
+    mockRelay.reset();
+
+    endpoints = [];
+    const reloaded = await reload('Dave');
+    expect(await reloaded.count(url)).toBe(0);
+    expect(endpoints).toEqual(['command', 'start_session', 'verify_session', 'prove', 'command']);
+
+    // the new session is saved in place of the rejected one
+    endpoints = [];
+    await (await reload('Dave')).count(url);
+    expect(endpoints).toEqual(['command']);
+  });
+
+  it('should make a new handshake when a saved session can not be decrypted', async () => {
+    const Frank = await reload('Frank');
+    await Frank.connectToRelay(url);
+    const key = `${Mailbox.relaySessionTag}.${url}.Frank${config.STORAGE_ROOT}`;
+    await CryptoStorage.getStorageDriver().set(key, Utils.toBase64(new Uint8Array(64)));
+
+    endpoints = [];
+    const reloaded = await reload('Frank');
+    expect(await reloaded.count(url)).toBe(0);
+    expect(endpoints).toEqual(['start_session', 'verify_session', 'prove', 'command']);
+
+    endpoints = [];
+    await (await reload('Frank')).count(url);
+    expect(endpoints).toEqual(['command']);
+  });
+
+  it('should make a new handshake when a saved session is malformed', async () => {
+    const Grace = await reload('Grace');
+    await Grace.keyRing.storage.save(`${Mailbox.relaySessionTag}.${url}`, { sessionKeys: 1 });
+
+    endpoints = [];
+    expect(await Grace.count(url)).toBe(0);
+    expect(endpoints).toEqual(['start_session', 'verify_session', 'prove', 'command']);
+  });
+});
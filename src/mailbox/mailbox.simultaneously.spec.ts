@@ -1,9 +1,11 @@
 import { NaCl } from '../nacl/nacl';
 import { Mailbox } from './mailbox';
-import { testRelayURL, testRelayURL2 } from '../tests.helper';
+import { testRelayURL, testRelayURL2, setupMockRelays } from '../tests.helper';
 import { CryptoStorage } from '../crypto-storage/crypto-storage';
 
 describe('Mailbox simultaneously', () => {
+  setupMockRelays();
+
   let Alice: Mailbox;
   let Bob: Mailbox;
   const msg1 = 'hi';
@@ -64,8 +66,8 @@ describe('Mailbox simultaneously', () => {
       ]);
       expect(msgsRelay1.map(m => m.data)).toEqual([msg1]);
       expect(msgsRelay2.map(m => m.data).sort()).toEqual([msg1, msg2].sort());
-      Bob.delete(testRelayURL, msgsRelay1.map(m => m.nonce));
-      Bob.delete(testRelayURL2, msgsRelay2.map(m => m.nonce));
+      await Bob.delete(testRelayURL, msgsRelay1.map(m => m.nonce));
+      await Bob.delete(testRelayURL2, msgsRelay2.map(m => m.nonce));
     });
   });
 
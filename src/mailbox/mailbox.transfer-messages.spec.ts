@@ -1,11 +1,12 @@
 import { CryptoStorage } from '../crypto-storage/crypto-storage';
 import { InMemoryStorage } from '../crypto-storage/in-memory-storage';
 import { NaCl } from '../nacl/nacl';
-import { testRelayURL } from '../tests.helper';
+import { testRelayURL, setupMockRelays } from '../tests.helper';
 import { Mailbox } from './mailbox';
 
 
 describe('Mailbox / Transfer Messages', () => {
+  setupMockRelays();
 
   let Alice: Mailbox;
   let Bob: Mailbox;
@@ -43,7 +44,7 @@ describe('Mailbox / Transfer Messages', () => {
         it('download', async () => {
           const [ message ] = await Bob.download(testRelayURL);
           expect(message.data).toEqual(msg);
-          Bob.delete(testRelayURL, [message.nonce]);
+          await Bob.delete(testRelayURL, [message.nonce]);
         });
       });
     });
@@ -1,9 +1,12 @@
+import { config } from '../config';
 import { NaCl } from '../nacl/nacl';
 import { NaClDriver, EncryptedMessage } from '../nacl/nacl-driver.interface';
 import { EncryptionHelper } from '../nacl/encryption.helper';
 import { KeyRing } from '../keyring/keyring';
 import { Base64, Utils } from '../utils/utils';
-import { Relay, RelayConnectionData } from '../relay/relay';
+import {
+  Relay, RelayConnectionData, RelayOptions, RelayProbeResult, RelayEvents, RelaySessionState, relayEvents
+} from '../relay/relay';
 import {
   RelayCommand,
   StartFileUploadResponse,
@@ -17,17 +20,77 @@ import {
   ZaxFileMessage,
   ZaxPlainMessage,
   ZaxTextMessage,
-  ZaxParsedMessage
+  ZaxParsedMessage,
+  ZaxObjectMessage,
+  ZaxRejectedMessage,
+  ZaxUnencryptedMessage,
+  MessageEnvelope
 } from '../zax.interface';
 import { RelayFactory } from '../relay/relay-factory';
+import { RelayTransport } from '../relay/relay-transport.interface';
+import { RelayMiddleware } from '../relay/relay-middleware';
+import { RelayCommands } from '../relay/relay-commands';
+import { ProofOfWorkOptions } from '../relay/proof-of-work';
+import { GlowNetworkError } from '../relay/network-error';
+import { GlowAbortError } from '../relay/abort-error';
+import { GlowProtocolError, GlowDecryptionError, GlowUnknownGuestError, GlowErrorContext } from '../errors';
+import { isFileMessageData, isFileUploadMetadata } from '../zax.validators';
+import {
+  RetryPolicy, defaultRetryPolicy, isTransientError, canRetryTransientError, retryDelay
+} from './retry-policy';
+import { RelaySet } from './relay-set';
+import { MailboxWatcher, WatchOptions } from './mailbox-watcher';
+import { Inbox, InboxEntry, InboxOptions } from './inbox';
+import { Outbox, OutboxItem, OutboxOptions } from './outbox';
+import { MessageAssembler, messageSize, parseMessagePart, splitMessage } from './message-parts';
+import { parseEnvelope, serializeEnvelope } from './message-envelope';
+import {
+  MessageReceipt, ReceiptPayload, ReceiptTracker, isReceiptPayload, receiptContentType
+} from './receipts';
+import { SequenceTracker, unwrapSequenced, wrapSequenced } from './sequence';
+import { ReplayGuard, ReplayGuardOptions } from './replay-guard';
+import { EventEmitter } from '../utils/event-emitter';
+import { Log } from '../logger/log';
+import { Logger, LogContext, LogLevel } from '../logger/logger.interface';
 import { Mutex } from 'async-mutex';
 
 
+/**
+ * Relay session events, re-emitted by Mailbox with the relay URL as the first argument
+ */
+export type MailboxEvents = {
+  [E in keyof RelayEvents]: [url: string, ...args: RelayEvents[E]];
+} & {
+  // Sequence numbers skipped by a sender, i.e. messages that were lost or not downloaded yet
+  sequenceGap: [url: string, senderTag: string, missing: number[]];
+  // A message that reuses the sequence number of another message from the same sender
+  sequenceDuplicate: [url: string, message: ZaxTextMessage];
+};
+
+/**
+ * Outcome of `Mailbox.broadcast` for one guest
+ */
+export type BroadcastResult = { token: Base64 } | { error: Error };
+
+export interface ProcessMessagesResult {
+  // Messages passed to the handler
+  handled: number;
+  // Messages that were handled before, but not deleted from the relay
+  skipped: number;
+  // Messages left on the relay
+  remaining: number;
+}
+
 /**
  * Mailbox class represents a wrapper around a Keyring that allows to exchange
  * encrypted messages with other Mailboxes via a relay
  */
-export class Mailbox {
+export class Mailbox extends EventEmitter<MailboxEvents> {
+  static readonly relaySessionTag = 'relay_session';
+  static readonly processedNoncesTag = 'processed_nonces';
+  // URLs of relays that have records in the storage of this Mailbox, to remove them on self-destruct
+  static readonly relayURLsTag = 'relay_urls';
+
   public keyRing: KeyRing;
   public identity: string;
   /**
@@ -40,12 +103,52 @@ export class Mailbox {
 
   private relayConnectionMutexes = new Map<string, Mutex>();
 
+  // relays whose events are already forwarded by this Mailbox
+  private observedRelays = new WeakSet<Relay>();
+
+  private retryPolicy: RetryPolicy = defaultRetryPolicy;
+
+  private logger?: Logger;
+
+  private inbox?: Inbox;
+
+  private outbox?: Outbox;
+
+  private messageAssembler = new MessageAssembler();
+
+  // max size in bytes of a text message sent as one relay message
+  private messageMaxSize = config.MESSAGE_MAX_SIZE;
+
+  // receipts are tracked for sent messages, and sent back for processed ones if enabled
+  private receiptsEnabled = false;
+
+  private receiptTracker?: ReceiptTracker;
+
+  // encrypted messages of the app are numbered per guest if enabled
+  private sequencingEnabled = false;
+
+  private sequenceTracker?: SequenceTracker;
+
+  // checks decrypted messages for replays if enabled
+  private replayGuard?: ReplayGuard;
+
+  // relay sessions are saved to CryptoStorage and resumed by new Mailbox instances if enabled
+  private persistSessions = false;
+
+  // relays for which a saved session was already looked up
+  private resumeAttempted = new Set<string>();
+
+  private relayURLs?: Set<string>;
+
   private nacl: NaClDriver;
 
   private constructor(naclDriver: NaClDriver, keyRing: KeyRing, identity: string) {
+    super();
     this.nacl = naclDriver;
     this.keyRing = keyRing;
     this.identity = identity;
+    // relays log through this Mailbox to add its identity to the context
+    this.relayFactory.setLogger({ log: (level, message, context) => this.log(level, message, context) });
   }
 
   static async new(identity: string): Promise<Mailbox> {
@@ -90,15 +193,147 @@ export class Mailbox {
   /**
    * Sends a free-form object to a guest we already have in our keyring. Set `encrypt` to `false` to
    * send a plaintext message. Returns a token that can be used with `messageStatus` command to check
-   * the status of the message
+   * the status of the message. Encrypted messages larger than the max message size are sent as several
+   * relay messages, and the token of the last part is returned, see `setMessageMaxSize`
+   */
+  async upload(url: string, guestKey: string, message: string, encrypt = true,
+    signal?: AbortSignal): Promise<Base64> {
+    this.getGuestKey(guestKey, { relay: url, command: RelayCommand.upload });
+    return await this.sendSequenced(guestKey, message, encrypt, async payloads => {
+      const token = await this.uploadPayloads(url, guestKey, payloads, signal);
+      await this.trackReceipt(guestKey, payloads, token);
+      return token;
+    });
+  }
+
+  /**
+   * Sets the max size in bytes of a text message in UTF-8 sent as one relay message, `config.MESSAGE_MAX_SIZE`
+   * by default. Encryption and Base64 make a relay message about 4/3 of this size, so keep it below
+   * the message size limit of the relays
+   */
+  setMessageMaxSize(size: number) {
+    this.messageMaxSize = size;
+  }
+
+  /**
+   * Sends a message to several guests, encrypted for each of them, over one relay session.
+   * Uploads run with at most `config.BROADCAST_CONCURRENCY` requests at a time.
+   * Returns a storage token or an error by guest tag, so a failure doesn't stop other uploads
+   */
+  async broadcast(url: string, guestTags: string[], message: string,
+    signal?: AbortSignal): Promise<{ [guest: string]: BroadcastResult }> {
+    await this.prepareRelay(url, signal);
+    const results = new Map<string, BroadcastResult>();
+    const queue = [...new Set(guestTags)];
+    const worker = async () => {
+      for (let guest = queue.shift(); guest !== undefined; guest = queue.shift()) {
+        try {
+          GlowAbortError.throwIfAborted(signal);
+          this.getGuestKey(guest, { relay: url, command: RelayCommand.upload });
+          results.set(guest, {
+            token: await this.sendSequenced(guest, message, true, async payloads => {
+              const token = await this.uploadPayloads(url, guest, payloads, signal);
+              await this.trackReceipt(guest, payloads, token);
+              return token;
+            })
+          });
+        } catch (err) {
+          results.set(guest, { error: err instanceof Error ? err : new Error(String(err)) });
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(config.BROADCAST_CONCURRENCY, queue.length) }, worker));
+    return Utils.toObject(results.entries());
+  }
+
+  /**
+   * Sends an app payload wrapped in a typed envelope, see `MessageEnvelope`.
+   * Returns the envelope id along with the storage token
+   */
+  async sendObject<T>(url: string, guestKey: string, contentType: string, payload: T,
+    signal?: AbortSignal): Promise<{ id: Base64, token: Base64 }> {
+    const envelope = await this.createEnvelope(contentType, payload);
+    const token = await this.upload(url, guestKey, serializeEnvelope(envelope), true, signal);
+    return { id: envelope.id, token };
+  }
+
+  private async createEnvelope<T>(contentType: string, payload: T): Promise<MessageEnvelope<T>> {
+    return {
+      version: config.MESSAGE_ENVELOPE_VERSION,
+      contentType,
+      id: Utils.toBase64(await this.nacl.random_bytes(config.RELAY_TOKEN_LEN)),
+      createdAt: Date.now(),
+      payload
+    };
+  }
+
+  /**
+   * Downloads messages sent with `sendObject`, optionally of a given content type only.
+   * Other messages are left out
+   */
+  async downloadObjects<T = unknown>(url: string, contentType?: string,
+    signal?: AbortSignal): Promise<ZaxObjectMessage<T>[]> {
+    const messages = await this.download(url, signal);
+    return messages.filter((message): message is ZaxObjectMessage<T> => message.kind === ZaxMessageKind.message
+      && !!message.envelope && (contentType === undefined || message.envelope.contentType === contentType));
+  }
+
+  /**
+   * Encodes a message of the app, numbering it if sequencing is enabled. The sequence number
+   * is released if `send` fails, so that a failed upload doesn't look like a lost message
+   */
+  private async sendSequenced<T>(guestKey: string, message: string, encrypt: boolean,
+    send: (payloads: (EncryptedMessage | string)[]) => Promise<T>): Promise<T> {
+    if (!this.sequencingEnabled || !encrypt) {
+      return await send(await this.encodeMessageParts(guestKey, message, encrypt));
+    }
+    const tracker = await this.getSequenceTracker();
+    const seq = await tracker.next(guestKey);
+    try {
+      return await send(await this.encodeMessageParts(guestKey, wrapSequenced(seq, message), true));
+    } catch (err) {
+      await tracker.release(guestKey, seq);
+      throw err;
+    }
+  }
+
+  /**
+   * Splits an oversized message into parts and encrypts them. Unencrypted messages are never split,
+   * since the recipient only joins parts of decrypted messages
+   */
+  private async encodeMessageParts(guestKey: string, message: string,
+    encrypt: boolean): Promise<(EncryptedMessage | string)[]> {
+    let parts = [message];
+    if (encrypt && messageSize(message) > this.messageMaxSize) {
+      const id = Utils.toBase64(await this.nacl.random_bytes(config.RELAY_TOKEN_LEN));
+      parts = splitMessage(id, message, this.messageMaxSize);
+    }
+    return encrypt ? await Promise.all(parts.map(part => this.encodeMessage(guestKey, part))) : parts;
+  }
+
+  /**
+   * Uploads parts of a message in order, and returns the token of the last one
+   */
+  private async uploadPayloads(url: string, guestKey: string, payloads: (EncryptedMessage | string)[],
+    signal?: AbortSignal): Promise<Base64> {
+    let token = '';
+    for (const payload of payloads) {
+      token = await this.uploadPayload(url, guestKey, payload, signal);
+    }
+    return token;
+  }
+
+  /**
+   * Uploads an already encoded message, so that the same ciphertext can be sent to several relays
    */
-  async upload(url: string, guestKey: string, message: string, encrypt = true): Promise<Base64> {
-    const relay = await this.prepareRelay(url);
-    const guestPk = this.getGuestKey(guestKey);
-    const payload = encrypt ? await this.encodeMessage(guestKey, message) : message;
+  private async uploadPayload(url: string, guestKey: string, payload: EncryptedMessage | string,
+    signal?: AbortSignal): Promise<Base64> {
+    const relay = await this.prepareRelay(url, signal);
+    const guestPk = this.getGuestKey(guestKey, { relay: url, command: RelayCommand.upload });
     const toHpk = Utils.toBase64(await this.nacl.h2(Utils.fromBase64(guestPk)));
 
-    const [token] = await this.runRelayCommand(relay, RelayCommand.upload, { to: toHpk, payload });
+    const response = await this.runRelayCommand(relay, RelayCommand.upload, { to: toHpk, payload }, undefined, signal);
+    const [token] = await this.parseResponse<[Base64]>(relay, RelayCommand.upload, response);
     return token;
   }
 
@@ -106,29 +341,71 @@ export class Mailbox {
    * Downloads all messages from a relay, decrypts them with a relay key,
    * and then parses each message to find out if it's a text message, file message,
    * or if it can't be decrypted because HPK is missing in the keyring.
+   * Parts of oversized messages are joined, and returned only when all of them are downloaded.
+   * Messages sent with `sendObject` come with a parsed `envelope`. If receipts are enabled,
+   * receipts of sent messages are applied and deleted from a relay instead of being returned.
+   * Numbered messages of each sender are ordered by their sequence numbers, see `setSequencing`.
+   * Messages rejected by the replay guard are returned as `rejected`, see `setReplayGuard`.
+   * Messages of known guests that can't be decrypted are returned as `unencrypted`.
    * Returns an array of mixed messages
    */
-  async download(url: string) {
-    const relay = await this.prepareRelay(url);
-    const response = await this.runRelayCommand(relay, RelayCommand.download);
-    const messages: ZaxRawMessage[] = await this.decryptResponse<ZaxRawMessage[]>(relay, response);
+  async download(url: string, signal?: AbortSignal) {
+    const relay = await this.prepareRelay(url, signal);
+    const response = await this.runRelayCommand(relay, RelayCommand.download, undefined, undefined, signal);
+    const messages = await this.parseResponse<ZaxRawMessage[]>(relay, RelayCommand.download, response);
 
     const parsedMessages: ZaxParsedMessage[] = [];
+    const receiptNonces: Base64[] = [];
     for (const message of messages) {
       const senderTag = this.keyRing.getTagByHpk(message.from);
       if (!senderTag) {
         parsedMessages.push(await this.parsePlainMessage(message));
       } else if (message.kind === 'message') {
-        parsedMessages.push(await this.parseTextMessage(message, senderTag));
+        const textMessage = await this.parseTextMessage(url, message, senderTag);
+        // only decrypted messages can be parts, numbered messages or receipts
+        if (textMessage.kind !== ZaxMessageKind.message) {
+          parsedMessages.push(textMessage);
+          continue;
+        }
+        const part = parseMessagePart(textMessage.data);
+        const joinedMessage = part ? this.messageAssembler.add(textMessage, part) : textMessage;
+        const completeMessage = joinedMessage && unwrapSequenced(joinedMessage);
+        const envelope = completeMessage && parseEnvelope(completeMessage.data);
+        if (this.receiptsEnabled && envelope?.contentType === receiptContentType
+          && isReceiptPayload(envelope.payload)) {
+          await (await this.getReceiptTracker()).apply(senderTag, envelope.payload);
+          receiptNonces.push(message.nonce);
+        } else if (completeMessage) {
+          parsedMessages.push(envelope ? { ...completeMessage, envelope } : completeMessage);
+        }
       } else if (message.kind === 'file') {
-        parsedMessages.push(await this.parseFileMessage(message, senderTag));
+        parsedMessages.push(await this.parseFileMessage(url, message, senderTag));
       } else {
-        throw new Error('[Mailbox] download - Unknown message type');
+        throw new GlowProtocolError('UNKNOWN_MESSAGE_KIND', '[Mailbox] download - Unknown message type',
+          { relay: url, command: RelayCommand.download });
       }
     }
+    await this.replayGuard?.save();
+    // receipts are consumed by this Mailbox, not by the app
+    if (receiptNonces.length) {
+      await this.delete(url, receiptNonces, signal);
+    }
+    if (parsedMessages.some(message => message.kind === ZaxMessageKind.message && message.seq !== undefined)) {
+      return await this.receiveSequenced(url, parsedMessages);
+    }
     return parsedMessages;
   }
 
+  /**
+   * Orders numbered messages of each sender, and emits `sequenceGap` and `sequenceDuplicate` events
+   */
+  private async receiveSequenced(url: string, parsedMessages: ZaxParsedMessage[]): Promise<ZaxParsedMessage[]> {
+    const { messages, report } = await (await this.getSequenceTracker()).receive(parsedMessages);
+    report.gaps.forEach((missing, senderTag) => this.emit('sequenceGap', url, senderTag, missing));
+    report.duplicates.forEach(message => this.emit('sequenceDuplicate', url, message));
+    return messages;
+  }
+
   /**
    * Marks a raw Zax message as one that can't be decrypted,
    * because sender's HPK is not found in the keyring
@@ -137,48 +414,91 @@ export class Mailbox {
     return { data, time, from, nonce, kind: ZaxMessageKind.plain } as ZaxPlainMessage;
   }
 
+  /**
+   * Marks a decrypted message as rejected if the replay guard is enabled and the message
+   * is outside of the acceptance window or was already received
+   */
+  private checkReplay(url: string, message: ZaxRawMessage, senderTag: string,
+    nonce: Base64): ZaxRejectedMessage | null {
+    const reason = this.replayGuard?.check(senderTag, url, nonce, message.time);
+    return reason ?
+      { data: message.data, time: message.time, senderTag, nonce, kind: ZaxMessageKind.rejected, reason } : null;
+  }
+
   /**
    * Decrypts a message that represents uploaded file metadata
    */
-  private async parseFileMessage(message: ZaxRawMessage, senderTag: string) {
-    const { nonce, ctext, uploadID } = JSON.parse(message.data);
+  private async parseFileMessage(url: string, message: ZaxRawMessage,
+    senderTag: string): Promise<ZaxFileMessage | ZaxRejectedMessage> {
+    const fileMessage = this.parseJSON(message.data);
+    if (!isFileMessageData(fileMessage)) {
+      throw new GlowProtocolError('BAD_RESPONSE', `[Mailbox] ${url}: Unexpected file message format`,
+        { relay: url, command: RelayCommand.download });
+    }
+    const { nonce, ctext, uploadID } = fileMessage;
     const rawData = await this.decodeMessage(senderTag, nonce, ctext);
     if (rawData === null) {
-      throw new Error('[Mailbox] Failed to decode file message');
+      throw new GlowDecryptionError('[Mailbox] Failed to decode file message',
+        { relay: url, command: RelayCommand.download });
+    }
+    const rejected = this.checkReplay(url, message, senderTag, nonce);
+    if (rejected) {
+      return rejected;
+    }
+    const data = this.parseJSON(rawData);
+    if (!isFileUploadMetadata(data)) {
+      throw new GlowProtocolError('BAD_RESPONSE', `[Mailbox] ${url}: Unexpected file metadata format`,
+        { relay: url, command: RelayCommand.download });
     }
-    const data = JSON.parse(rawData) as FileUploadMetadata;
     return { data, time: message.time, senderTag, uploadID, nonce, kind: ZaxMessageKind.file } as ZaxFileMessage;
   }
 
   /**
-   * Attempts to decrypt a regular encrypted Zax message. Returns plain message if it was sent encrypted
+   * Attempts to decrypt a regular encrypted Zax message. Returns an `unencrypted` message
+   * if it was sent unencrypted or can't be decrypted
    */
-  private async parseTextMessage(message: ZaxRawMessage, senderTag: string): Promise<ZaxTextMessage> {
-    let data = await this.decodeMessage(senderTag, message.nonce, message.data);
+  private async parseTextMessage(url: string, message: ZaxRawMessage,
+    senderTag: string): Promise<ZaxTextMessage | ZaxRejectedMessage | ZaxUnencryptedMessage> {
+    const data = await this.decodeMessage(senderTag, message.nonce, message.data);
+    const { time, nonce } = message;
     // If the message was sent unencrypted, the line above will return `null`
-    if (!data) {
-      data = message.data;
+    if (data === null) {
+      return { data: message.data, time, senderTag, nonce, kind: ZaxMessageKind.unencrypted };
     }
-    return ({ data, time: message.time, senderTag, nonce: message.nonce, kind: ZaxMessageKind.message });
+    return this.checkReplay(url, message, senderTag, nonce)
+      ?? { data, time, senderTag, nonce, kind: ZaxMessageKind.message };
+  }
+
+  /**
+   * Starts polling a relay for new messages. Returns a watcher that emits each new message once,
+   * and can also be consumed with `for await`. Polling slows down while the mailbox is idle,
+   * and a relay session is re-established when it expires
+   */
+  watch(url: string, options?: WatchOptions): MailboxWatcher {
+    return new MailboxWatcher(async signal => await this.count(url, signal) ? await this.download(url, signal) : [],
+      options);
   }
 
   /**
    * Returns the number of messages in the mailbox on a given relay
    */
-  async count(url: string): Promise<number> {
-    const relay = await this.prepareRelay(url);
-    const response = await this.runRelayCommand(relay, RelayCommand.count);
-    return await this.decryptResponse(relay, response);
+  async count(url: string, signal?: AbortSignal): Promise<number> {
+    const relay = await this.prepareRelay(url, signal);
+    const response = await this.runRelayCommand(relay, RelayCommand.count, undefined, undefined, signal);
+    return await this.parseResponse(relay, RelayCommand.count, response);
   }
 
   /**
   * Deletes messages from a relay given a list of base64 message nonces,
-  * and returns the number of remaining messages
+  * and returns the number of remaining messages. Deleting a joined message deletes all its parts
   */
-  async delete(url: string, nonceList: Base64[]): Promise<number> {
-    const relay = await this.prepareRelay(url);
-    const [response] = await this.runRelayCommand(relay, RelayCommand.delete, { payload: nonceList });
-    return parseInt(response, 10);
+  async delete(url: string, nonceList: Base64[], signal?: AbortSignal): Promise<number> {
+    const relay = await this.prepareRelay(url, signal);
+    const payload = this.messageAssembler.expandNonces(nonceList);
+    const response = await this.runRelayCommand(relay, RelayCommand.delete, { payload },
+      undefined, signal);
+    const [remaining] = await this.parseResponse<[string]>(relay, RelayCommand.delete, response);
+    return parseInt(remaining, 10);
   }
 
   /**
@@ -186,11 +506,283 @@ export class Mailbox {
   * Returns "time to live" in seconds or a negative value if it's not applicable.
   * See `MessageStatusResponse` values for reference
   */
-  async messageStatus(url: string, storageToken: Base64): Promise<MessageStatusResponse | number> {
-    const relay = await this.prepareRelay(url);
-    const [response] = await this.runRelayCommand(relay, RelayCommand.messageStatus, { token: storageToken });
-    const status = parseInt(response, 10);
-    return status;
+  async messageStatus(url: string, storageToken: Base64,
+    signal?: AbortSignal): Promise<MessageStatusResponse | number> {
+    const relay = await this.prepareRelay(url, signal);
+    const response = await this.runRelayCommand(relay, RelayCommand.messageStatus, { token: storageToken },
+      undefined, signal);
+    const [status] = await this.parseResponse<[string]>(relay, RelayCommand.messageStatus, response);
+    return parseInt(status, 10);
+  }
+
+  /**
+   * Downloads messages and passes them to `handler` one by one, in order. Messages are deleted
+   * from a relay only after the handler resolves, and their nonces are saved to CryptoStorage
+   * before that, so that messages redelivered after a crash are not handled twice. If the handler
+   * throws, processing stops, messages handled so far are deleted, and the error is rethrown.
+   * If receipts are enabled, a `delivered` receipt is sent for each handled message
+   */
+  async processMessages(url: string, handler: (message: ZaxParsedMessage) => Promise<void> | void,
+    signal?: AbortSignal): Promise<ProcessMessagesResult> {
+    const messages = await this.download(url, signal);
+    const tag = `${Mailbox.processedNoncesTag}.${url}`;
+    const downloaded = new Set(messages.map(message => message.nonce));
+    // nonces of messages that are no longer on the relay are not needed anymore
+    const processed = new Set((await this.keyRing.storage.get<Base64[]>(tag) ?? [])
+      .filter(nonce => downloaded.has(nonce)));
+    const result: ProcessMessagesResult = { handled: 0, skipped: processed.size, remaining: 0 };
+
+    let handlerError: unknown;
+    for (const message of messages) {
+      if (processed.has(message.nonce)) {
+        continue;
+      }
+      try {
+        GlowAbortError.throwIfAborted(signal);
+        await handler(message);
+      } catch (err) {
+        handlerError = err;
+        break;
+      }
+      processed.add(message.nonce);
+      result.handled++;
+      await this.trackRelayURL(url);
+      await this.keyRing.storage.save(tag, [...processed]);
+      if (this.receiptsEnabled && (message.kind === ZaxMessageKind.message || message.kind === ZaxMessageKind.file)) {
+        await this.trySendReceipt(url, message.senderTag, message.nonce, 'delivered', signal);
+      }
+    }
+
+    if (processed.size) {
+      result.remaining = await this.delete(url, [...processed], signal);
+      await this.keyRing.storage.remove(tag);
+    } else {
+      result.remaining = messages.length;
+    }
+    if (handlerError) {
+      throw handlerError;
+    }
+    return result;
+  }
+
+  // ---------- Local inbox (public API) ----------
+
+  /**
+   * Returns the local history of messages of this Mailbox, loading it from CryptoStorage
+   * on the first call. `options` change its retention limits
+   */
+  async getInbox(options?: InboxOptions): Promise<Inbox> {
+    if (!this.inbox) {
+      this.inbox = await Inbox.load(this.keyRing.storage, options);
+    } else if (options) {
+      this.inbox.setRetention(options);
+    }
+    return this.inbox;
+  }
+
+  /**
+   * Downloads messages from a relay and stores them in the local inbox.
+   * Returns entries of the messages that were not in the inbox yet
+   */
+  async syncInbox(url: string, signal?: AbortSignal): Promise<InboxEntry[]> {
+    const messages = await this.download(url, signal);
+    return await (await this.getInbox()).add(url, messages);
+  }
+
+  // ---------- Outbox (public API) ----------
+
+  /**
+   * Returns the queue of outgoing messages and files of this Mailbox, loading it from
+   * CryptoStorage on the first call. Call `start` on the outbox to send queued items
+   * automatically, or `flush` to send them right away
+   */
+  async getOutbox(options?: OutboxOptions): Promise<Outbox> {
+    if (!this.outbox) {
+      this.outbox = await Outbox.load(this.keyRing.storage,
+        (item, save, signal) => this.sendOutboxItem(item, save, signal));
+    }
+    if (options) {
+      this.outbox.setOptions(options);
+    }
+    return this.outbox;
+  }
+
+  /**
+   * Uploads a queued message, or a queued file chunk by chunk, and returns its storage token.
+   * A file upload is resumed from the first chunk that wasn't uploaded, so the recipient gets only one file message
+   */
+  private async sendOutboxItem(item: OutboxItem, save: () => Promise<void>, signal?: AbortSignal): Promise<Base64> {
+    if (item.type === 'message') {
+      return await this.upload(item.url, item.guest, item.message, true, signal);
+    }
+    if (!item.upload) {
+      const { uploadID, max_chunk_size, storage_token, skey } =
+        await this.startFileUpload(item.url, item.guest, { ...item.metadata }, signal);
+      item.upload = {
+        uploadID, skey: Utils.toBase64(skey), storageToken: storage_token, maxChunkSize: max_chunk_size, nextPart: 0
+      };
+      await save();
+    }
+    const upload = item.upload;
+    const file = Utils.fromBase64(item.file);
+    const totalParts = Math.max(1, Math.ceil(file.length / upload.maxChunkSize));
+    while (upload.nextPart < totalParts) {
+      const part = upload.nextPart;
+      const chunk = file.subarray(part * upload.maxChunkSize, (part + 1) * upload.maxChunkSize);
+      const { status } = await this.uploadFileChunk(item.url, upload.uploadID, chunk, part, totalParts,
+        Utils.fromBase64(upload.skey), signal);
+      if (status === 'NOT_FOUND') {
+        // the relay dropped the upload, so a retry starts a new one
+        delete item.upload;
+        throw new GlowProtocolError('BAD_RESPONSE', `[Mailbox] Upload ${upload.uploadID} is not found`,
+          { relay: item.url, command: RelayCommand.uploadFileChunk });
+      }
+      upload.nextPart++;
+      await save();
+    }
+    return upload.storageToken;
+  }
+
+  // ---------- Receipts (public API) ----------
+
+  /**
+   * Enables receipts: messages sent with `upload`, `sendObject` and `broadcast` are tracked,
+   * receipts from their recipients are applied on download, and messages handled by
+   * `processMessages` are confirmed with `delivered` receipts. Both sides need to enable receipts
+   */
+  async setReceipts(enabled: boolean) {
+    this.receiptsEnabled = enabled;
+    if (enabled) {
+      await this.getReceiptTracker();
+    }
+  }
+
+  /**
+   * Returns receipt state of a message by the storage token returned when it was sent
+   */
+  async getReceipt(token: Base64): Promise<MessageReceipt | undefined> {
+    return (await this.getReceiptTracker()).get(token);
+  }
+
+  async getReceipts(guest?: string): Promise<MessageReceipt[]> {
+    return (await this.getReceiptTracker()).getAll(guest);
+  }
+
+  /**
+   * Sends a `read` receipt for a downloaded message back to its sender
+   */
+  async sendReadReceipt(url: string, message: ZaxTextMessage | ZaxFileMessage, signal?: AbortSignal) {
+    await this.sendReceipt(url, message.senderTag, message.nonce, 'read', signal);
+  }
+
+  private async sendReceipt(url: string, guest: string, nonce: Base64, status: ReceiptPayload['status'],
+    signal?: AbortSignal) {
+    const envelope = await this.createEnvelope<ReceiptPayload>(receiptContentType, { nonce, status });
+    const payloads = await this.encodeMessageParts(guest, serializeEnvelope(envelope), true);
+    await this.uploadPayloads(url, guest, payloads, signal);
+  }
+
+  /**
+   * Receipts are best-effort, so a failure doesn't affect processing of messages
+   */
+  private async trySendReceipt(url: string, guest: string, nonce: Base64, status: ReceiptPayload['status'],
+    signal?: AbortSignal) {
+    try {
+      await this.sendReceipt(url, guest, nonce, status, signal);
+    } catch (err) {
+      this.log('warn', `[Mailbox] Failed to send ${status} receipt`, { relay: url, error: err });
+    }
+  }
+
+  /**
+   * Tracks an encrypted message by the nonce of its first part, which is referenced by receipts
+   */
+  private async trackReceipt(guest: string, payloads: (EncryptedMessage | string)[], token: Base64) {
+    const [first] = payloads;
+    if (this.receiptsEnabled && typeof first === 'object') {
+      await (await this.getReceiptTracker()).track(first.nonce, token, guest);
+    }
+  }
+
+  private async getReceiptTracker(): Promise<ReceiptTracker> {
+    if (!this.receiptTracker) {
+      this.receiptTracker = await ReceiptTracker.load(this.keyRing.storage);
+    }
+    return this.receiptTracker;
+  }
+
+  // ---------- Sequencing (public API) ----------
+
+  /**
+   * Enables numbering of encrypted messages sent to each guest. Recipients order numbered
+   * messages on download, and report skipped and reused numbers with `sequenceGap` and
+   * `sequenceDuplicate` events. Counters are kept in the storage of the keyring
+   */
+  async setSequencing(enabled: boolean) {
+    this.sequencingEnabled = enabled;
+    if (enabled) {
+      await this.getSequenceTracker();
+    }
+  }
+
+  private async getSequenceTracker(): Promise<SequenceTracker> {
+    if (!this.sequenceTracker) {
+      this.sequenceTracker = await SequenceTracker.load(this.keyRing.storage);
+    }
+    return this.sequenceTracker;
+  }
+
+  // ---------- Replay protection (public API) ----------
+
+  /**
+   * Enables rejecting messages whose nonce timestamps are outside of the acceptance window,
+   * and messages stored on a relay again after they were received. Seen nonces are kept
+   * per guest in the encrypted storage of this Mailbox. Unencrypted messages are not checked
+   */
+  async setReplayGuard(enabled: boolean, options?: ReplayGuardOptions) {
+    this.replayGuard = enabled ? await ReplayGuard.load(this.keyRing.storage, options) : undefined;
+  }
+
+  // ---------- Multiple relays (public API) ----------
+
+  /**
+   * Uploads the same encrypted message to `redundancy` relays of the set, replacing unavailable
+   * relays with the remaining ones. Returns storage tokens by relay URL. If a relay rejects the message,
+   * throws `GlowReplicationError` with the tokens of the relays that stored it
+   */
+  async uploadToRelays(relays: RelaySet, guestKey: string, message: string,
+    encrypt = true, signal?: AbortSignal): Promise<{ [url: string]: Base64 }> {
+    this.getGuestKey(guestKey, { command: RelayCommand.upload });
+    const tokens = await this.sendSequenced(guestKey, message, encrypt,
+      payloads => relays.replicate(url => this.uploadPayloads(url, guestKey, payloads, signal)));
+    return Utils.toObject(tokens.entries());
+  }
+
+  /**
+   * Downloads messages from all available relays of the set and merges them. Copies of an encrypted
+   * message uploaded to several relays share a nonce, so they are returned only once
+   */
+  async downloadFromRelays(relays: RelaySet, signal?: AbortSignal): Promise<ZaxParsedMessage[]> {
+    const downloads = await relays.all(url => this.download(url, signal));
+    const messages = new Map<Base64, ZaxParsedMessage>();
+    for (const relayMessages of downloads.values()) {
+      for (const message of relayMessages) {
+        if (!messages.has(message.nonce)) {
+          messages.set(message.nonce, message);
+        }
+      }
+    }
+    return [...messages.values()];
+  }
+
+  /**
+   * Deletes messages from all available relays of the set, and returns the number
+   * of remaining messages by relay URL
+   */
+  async deleteFromRelays(relays: RelaySet, nonceList: Base64[],
+    signal?: AbortSignal): Promise<{ [url: string]: number }> {
+    const remaining = await relays.all(url => this.delete(url, nonceList, signal));
+    return Utils.toObject(remaining.entries());
   }
 
   // ---------- Relay file commands (public API) ----------
@@ -200,9 +792,9 @@ export class Mailbox {
    * required to upload file chunks.
    */
   async startFileUpload(url: string, guest: string,
-    rawMetadata: FileUploadMetadata): Promise<StartFileUploadResponse> {
-    const relay = await this.prepareRelay(url);
-    const guestPk = this.getGuestKey(guest);
+    rawMetadata: FileUploadMetadata, signal?: AbortSignal): Promise<StartFileUploadResponse> {
+    const relay = await this.prepareRelay(url, signal);
+    const guestPk = this.getGuestKey(guest, { relay: url, command: RelayCommand.startFileUpload });
     const toHpk = Utils.toBase64(await this.nacl.h2(Utils.fromBase64(guestPk)));
 
     const secretKey = await this.nacl.random_bytes(this.nacl.crypto_secretbox_KEYBYTES);
@@ -214,9 +806,9 @@ export class Mailbox {
       to: toHpk,
       file_size: rawMetadata.orig_size,
       metadata
-    });
+    }, undefined, signal);
 
-    const decrypted = await this.decryptResponse<StartFileUploadResponse>(relay, response);
+    const decrypted = await this.parseResponse<StartFileUploadResponse>(relay, RelayCommand.startFileUpload, response);
     // append symmetric secret key (unique for this upload session) to the server response
     decrypted.skey = secretKey;
     return decrypted;
@@ -226,16 +818,17 @@ export class Mailbox {
    * Encrypts the file chunk symmetrically and transfers it to a relay
    */
   async uploadFileChunk(url: string, uploadID: string, chunk: Uint8Array,
-    part: number, totalParts: number, skey: Uint8Array): Promise<UploadFileChunkResponse> {
-    const relay = await this.prepareRelay(url);
+    part: number, totalParts: number, skey: Uint8Array, signal?: AbortSignal): Promise<UploadFileChunkResponse> {
+    const relay = await this.prepareRelay(url, signal);
     const encodedChunk = await EncryptionHelper.encodeMessageSymmetric(chunk, skey);
+    // do not encode file chunk contents, as it's already encoded with symmetric encryption
     const response = await this.runRelayCommand(relay, RelayCommand.uploadFileChunk, {
       uploadID,
       part,
       last_chunk: (totalParts - 1 === part), // marker of the last chunk, sent only once
       nonce: encodedChunk.nonce
-    }, encodedChunk.ctext); // do not encode file chunk contents, as it's already encoded with symmetric encryption
-    return await this.decryptResponse(relay, response);
+    }, encodedChunk.ctext, signal);
+    return await this.parseResponse(relay, RelayCommand.uploadFileChunk, response);
   }
 
   /**
@@ -243,17 +836,17 @@ export class Mailbox {
    * to verify the correct transfer, and downloader can check if the file exists and retrieve
    * the number of chunks
    */
-  async getFileStatus(url: string, uploadID: string): Promise<FileStatusResponse> {
-    const relay = await this.prepareRelay(url);
-    const response = await this.runRelayCommand(relay, RelayCommand.fileStatus, { uploadID });
-    return await this.decryptResponse(relay, response);
+  async getFileStatus(url: string, uploadID: string, signal?: AbortSignal): Promise<FileStatusResponse> {
+    const relay = await this.prepareRelay(url, signal);
+    const response = await this.runRelayCommand(relay, RelayCommand.fileStatus, { uploadID }, undefined, signal);
+    return await this.parseResponse(relay, RelayCommand.fileStatus, response);
   }
 
   /**
    * Fetches the file metadata by uploadID, which was declared by the uploader
    */
-  async getFileMetadata(url: string, uploadID: string): Promise<FileUploadMetadata> {
-    const messages = await this.download(url);
+  async getFileMetadata(url: string, uploadID: string, signal?: AbortSignal): Promise<FileUploadMetadata> {
+    const messages = await this.download(url, signal);
 
     const fileMessage = messages
       .filter(message => message.kind === 'file')
@@ -265,26 +858,47 @@ export class Mailbox {
    * Downloads a binary chunk of a file from a relay by a given uploadID. The total number of chunks
    * can be retrieved via a `getFileStatus` request
    */
-  async downloadFileChunk(url: string, uploadID: string, part: number, skey: Uint8Array | Base64):
-    Promise<Uint8Array | null> {
+  async downloadFileChunk(url: string, uploadID: string, part: number, skey: Uint8Array | Base64,
+    signal?: AbortSignal): Promise<Uint8Array | null> {
     if (!(skey instanceof Uint8Array)) {
       skey = Utils.fromBase64(skey);
     }
-    const relay = await this.prepareRelay(url);
-    const response = await this.runRelayCommand(relay, RelayCommand.downloadFileChunk, { uploadID, part });
-    const [nonce, ctext, fileCtext] = response;
-    const decoded = await relay.decodeMessage<{nonce: string}>(nonce, ctext);
-    return await EncryptionHelper.decodeMessageSymmetric(decoded.nonce, fileCtext, skey);
+    const relay = await this.prepareRelay(url, signal);
+    const response = await this.runRelayCommand(relay, RelayCommand.downloadFileChunk, { uploadID, part },
+      undefined, signal);
+    const decoded = await this.parseResponse<{nonce: string}>(relay, RelayCommand.downloadFileChunk, response);
+    // the third line is the file chunk itself
+    return await EncryptionHelper.decodeMessageSymmetric(decoded.nonce, response[2], skey);
   }
 
   /**
    * Deletes a file from the relay (or all chunks uploaded so far, if the upload was not completed).
    * Can be called by either the sender or recipient
    */
-  async deleteFile(url: string, uploadID: string): Promise<DeleteFileResponse> {
-    const relay = await this.prepareRelay(url);
-    const response = await this.runRelayCommand(relay, RelayCommand.deleteFile, { uploadID });
-    return await this.decryptResponse(relay, response);
+  async deleteFile(url: string, uploadID: string, signal?: AbortSignal): Promise<DeleteFileResponse> {
+    const relay = await this.prepareRelay(url, signal);
+    const response = await this.runRelayCommand(relay, RelayCommand.deleteFile, { uploadID }, undefined, signal);
+    return await this.parseResponse(relay, RelayCommand.deleteFile, response);
+  }
+
+  // ---------- Custom relay commands (public API) ----------
+
+  /**
+   * Runs a command registered with `RelayCommands.register`, encrypted with the session keys like
+   * standard commands. Returns the decrypted response, or raw response lines for commands declared
+   * as unencrypted, passed through the command's `decode` function if there is one
+   */
+  async runCustomCommand<T = unknown>(url: string, command: string, params?: {[key: string]: unknown},
+    signal?: AbortSignal): Promise<T> {
+    const definition = RelayCommands.get(command);
+    if (!definition) {
+      throw new GlowProtocolError('UNSUPPORTED_COMMAND', `[Mailbox] Unknown relay command ${command}`,
+        { relay: url, command });
+    }
+    const relay = await this.prepareRelay(url, signal);
+    const response = await this.runRelayCommand(relay, command, params, undefined, signal);
+    const result = await this.parseResponse(relay, command, response);
+    return (definition.decode ? definition.decode(result) : result) as T;
   }
 
   // ---------- Dealing with Relay ----------
@@ -292,25 +906,153 @@ export class Mailbox {
   /**
    * Establishes a session, exchanges temp keys and proves our ownership of this
    * Mailbox to this specific relay. This is the first function to start
-   * communications with any relay. Returns the number of messages in the mailbox
+   * communications with any relay. Returns the number of messages in the mailbox.
+   * `options` allow to track and cancel the proof of work, if a relay requests it
    */
-  async connectToRelay(url: string): Promise<number> {
-    const relay = this.relayFactory.getInstance(url);
-    const connectionData = await relay.openConnection();
+  async connectToRelay(url: string, options?: ProofOfWorkOptions): Promise<number> {
+    const relay = this.getRelay(url);
+    const connectionData = await relay.openConnection(options);
     const encryptedSignature = await this.encryptSignature(connectionData);
 
     const messagesNumber = await relay.prove(await relay.encodeMessage(JSON.stringify({
       pub_key: this.keyRing.getPubCommKey(),
       nonce: encryptedSignature.nonce,
       ctext: encryptedSignature.ctext
-    })));
+    })), options?.signal);
+    await this.saveRelaySession(relay);
     return parseInt(messagesNumber, 10);
   }
 
+  /**
+   * Probes relays with this Mailbox's relay instances, and returns them ordered from the best one
+   * to pass to `connectToRelay`. See `RelayFactory.rank`
+   */
+  async rankRelays(urls: string[], maxAge?: number, signal?: AbortSignal): Promise<RelayProbeResult[]> {
+    urls.forEach(url => this.getRelay(url));
+    return await this.relayFactory.rank(urls, maxAge, signal);
+  }
+
+  /**
+   * Sets timeouts, session TTLs and max accepted difficulty for a relay at a given URL
+   */
+  configureRelay(url: string, options: RelayOptions) {
+    this.getRelay(url, options);
+  }
+
+  /**
+   * Replaces the transport used to reach relays (`fetch` by default) for this Mailbox
+   */
+  setRelayTransport(transport: RelayTransport) {
+    this.relayFactory.setTransport(transport);
+  }
+
+  /**
+   * Adds hooks around requests to relays for this Mailbox, e.g. for logging or tracing.
+   * Tokens, keys, nonces and ciphertexts are redacted unless `middleware.redact` is `false`.
+   * Returns a function that removes the hooks
+   */
+  useRelayMiddleware(middleware: RelayMiddleware): () => void {
+    return this.relayFactory.use(middleware);
+  }
+
+  /**
+   * Sets a logger for this Mailbox and its relays. Pass `null` to fall back to the default logger
+   */
+  setLogger(logger: Logger | null) {
+    this.logger = logger ?? undefined;
+  }
+
+  /**
+   * Overrides the default retry policy of relay commands for this Mailbox
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  /**
+   * Enables saving relay sessions to the encrypted storage of this Mailbox, so that a Mailbox
+   * created with the same identity later (e.g. after a page reload) resumes them without
+   * a new handshake, while they are within the session TTL
+   */
+  async setSessionPersistence(enabled: boolean) {
+    this.persistSessions = enabled;
+    if (!enabled) {
+      for (const url of this.resumeAttempted) {
+        await this.keyRing.storage.remove(this.relaySessionTag(url));
+      }
+    }
+  }
+
+  /**
+   * Drops the session with a relay, so that the next command makes a new handshake.
+   * A saved session is not resumed by this Mailbox, see `clearSavedSession` to remove it from storage
+   */
   clearSession(url: string) {
-    const relay = this.relayFactory.getInstance(url);
+    const relay = this.getRelay(url);
     relay.clearToken();
     relay.clearSession();
+    this.resumeAttempted.add(url);
+  }
+
+  /**
+   * Removes a relay session saved with `setSessionPersistence`, so that Mailbox instances
+   * created later make a new handshake
+   */
+  async clearSavedSession(url: string) {
+    await this.keyRing.storage.remove(this.relaySessionTag(url));
+  }
+
+  private async saveRelaySession(relay: Relay) {
+    this.resumeAttempted.add(relay.url);
+    const state = relay.exportSession();
+    if (this.persistSessions && state) {
+      await this.trackRelayURL(relay.url);
+      await this.keyRing.storage.save(this.relaySessionTag(relay.url), state);
+    }
+  }
+
+  /**
+   * Resumes a saved relay session once per relay, since a rejected session is replaced
+   * by a new handshake. A saved session that can't be read is removed as well.
+   * Returns `true` if the relay is connected
+   */
+  private async resumeRelaySession(relay: Relay): Promise<boolean> {
+    if (!this.persistSessions || this.resumeAttempted.has(relay.url)) {
+      return false;
+    }
+    this.resumeAttempted.add(relay.url);
+    const tag = this.relaySessionTag(relay.url);
+    try {
+      const state = await this.keyRing.storage.get<RelaySessionState>(tag);
+      if (state && relay.restoreSession(state)) {
+        this.log('debug', '[Mailbox] Resumed relay session', { relay: relay.url });
+        return true;
+      }
+    } catch (err) {
+      relay.clearSession();
+      this.log('warn', '[Mailbox] Saved relay session can not be resumed', { relay: relay.url, error: err });
+    }
+    await this.keyRing.storage.remove(tag);
+    return false;
+  }
+
+  private relaySessionTag(url: string) {
+    return `${Mailbox.relaySessionTag}.${url}`;
+  }
+
+  private async getRelayURLs(): Promise<Set<string>> {
+    if (!this.relayURLs) {
+      this.relayURLs = new Set(await this.keyRing.storage.get<string[]>(Mailbox.relayURLsTag) ?? []);
+    }
+    return this.relayURLs;
+  }
+
+  private async trackRelayURL(url: string) {
+    const urls = await this.getRelayURLs();
+    if (!urls.has(url)) {
+      urls.add(url);
+      await this.keyRing.storage.save(Mailbox.relayURLsTag, [...urls]);
+    }
   }
 
   private async encryptSignature(connection: RelayConnectionData) {
@@ -318,40 +1060,104 @@ export class Mailbox {
     return await EncryptionHelper.encodeMessage(connection.h2Signature, connection.relayPublicKey, privateKey);
   }
 
+  /**
+   * Gets a singleton Relay instance, and forwards its events when it's used for the first time
+   */
+  private getRelay(url: string, options?: RelayOptions): Relay {
+    const relay = this.relayFactory.getInstance(url, options);
+    if (!this.observedRelays.has(relay)) {
+      this.observedRelays.add(relay);
+      relayEvents.forEach(event => relay.on(event, (...args) => this.emit(event, url, ...args)));
+    }
+    return relay;
+  }
+
   /**
    * Gets a singleton Relay instance, and reconnects to a relay if a previous token has expired
    */
-  private async prepareRelay(url: string): Promise<Relay> {
-    const relay = this.relayFactory.getInstance(url);
+  private async prepareRelay(url: string, signal?: AbortSignal): Promise<Relay> {
+    const relay = this.getRelay(url);
+    GlowAbortError.throwIfAborted(signal);
     /**
      * allow establishing only once connection for pair mailbox-relay
      */
     await this.getRelayConnectionMutex(url).runExclusive(async () => {
-      if (!relay.isConnected) {
-        await this.connectToRelay(url);
+      GlowAbortError.throwIfAborted(signal);
+      if (!relay.isConnected && !await this.resumeRelaySession(relay)) {
+        await this.connectToRelay(url, { signal });
       }
     });
     return relay;
   }
 
   /**
-   * Encrypts the payload of the command and sends it to a relay
+   * Encrypts the payload of the command and sends it to a relay. Transient network errors are retried
+   * with exponential backoff, and a command rejected with 401 is replayed once after a new handshake.
+   * Aborting `signal` cancels the request in flight or the pending retry with `GlowAbortError`
    */
   private async runRelayCommand(
-    relay: Relay, command: RelayCommand, params?: {[key:string]: unknown}, ctext?: string): Promise<string[]> {
+    relay: Relay, command: string, params?: {[key:string]: unknown}, ctext?: string,
+    signal?: AbortSignal): Promise<string[]> {
     params = { cmd: command, ...params };
     const hpk = await this.keyRing.getHpk();
-    const message = await relay.encodeMessage(JSON.stringify(params));
-    return await relay.runCmd(command, hpk, message, ctext);
+    let reconnected = false;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (attempt > 1) {
+          // relay drops the session on 401, so this reconnects if needed
+          await this.prepareRelay(relay.url, signal);
+        }
+        const message = await relay.encodeMessage(JSON.stringify(params));
+        return await relay.runCmd(command, hpk, message, ctext, signal);
+      } catch (err) {
+        if (!(err instanceof GlowNetworkError)) {
+          throw err;
+        }
+        const canReconnect = err.status === 401 && !reconnected;
+        const canRetry = isTransientError(err) && canRetryTransientError(this.retryPolicy, command);
+        if (attempt >= this.retryPolicy.maxAttempts || !(canReconnect || canRetry)) {
+          err.attempts = attempt;
+          throw err;
+        }
+
+        if (canReconnect) {
+          reconnected = true;
+        }
+        const delay = canReconnect ? 0 : retryDelay(this.retryPolicy, attempt);
+        this.log('info', `[Mailbox] Retrying ${command} after status ${err.status}`,
+          { relay: relay.url, command, attempt, status: err.status, delay });
+        this.retryPolicy.onRetry?.({ command, attempt, error: err, delay });
+        if (delay) {
+          await Utils.delay(delay, signal);
+        }
+        GlowAbortError.throwIfAborted(signal);
+      }
+    }
   }
 
   /**
-   * Parses relay's response to a command, for those commands that expect an encrypted message in return.
-   * Two lines of POST response will be nonce and ctext
+   * Parses relay's response to a command. For commands that expect an encrypted message in return,
+   * the first two lines of POST response will be nonce and ctext, and other commands return raw lines.
+   * The result is checked with the command's validator, and rejected with `GlowProtocolError` on mismatch
    */
-  private async decryptResponse<T>(relay: Relay, response: string[]) {
+  private async parseResponse<T>(relay: Relay, command: string, response: string[]): Promise<T> {
+    const definition = RelayCommands.get(command);
     const [nonce, ctext] = response;
-    return await relay.decodeMessage<T>(nonce, ctext);
+    const result = definition?.encrypted ? await relay.decodeMessage<unknown>(nonce, ctext) : response;
+    if (definition?.validate && !definition.validate(result)) {
+      throw new GlowProtocolError('BAD_RESPONSE', `[Mailbox] ${relay.url} - ${command}: Unexpected response format`,
+        { relay: relay.url, command });
+    }
+    return result as T;
+  }
+
+  private parseJSON(data: string): unknown {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return undefined;
+    }
   }
 
   // ---------- Message encoding / decoding ----------
@@ -390,10 +1196,10 @@ export class Mailbox {
   /**
    * Wrapper around `keyring.getGuestKey` that handles unknown guests
    */
-  private getGuestKey(guest: string): string {
+  private getGuestKey(guest: string, context?: GlowErrorContext): string {
     const guestPk = this.keyRing.getGuestKey(guest);
     if (!guestPk) {
-      throw new Error(`[Mailbox] Unknown guest ${guest}`);
+      throw new GlowUnknownGuestError(guest, context);
     }
     return guestPk;
   }
@@ -405,11 +1211,35 @@ export class Mailbox {
    * destructive operation, use with caution - it will delete the Mailbox
    * keyring along with all stored public keys. To restore that information, you
    * will need to do another key exchange with all the guests on your keyring.
+   * The local inbox, outbox, receipts, sequence counters, seen nonces and saved
+   * relay sessions are deleted too.
    */
   async selfDestruct() {
+    this.outbox?.stop();
+    const storage = this.keyRing.storage;
+    for (const url of new Set([...await this.getRelayURLs(), ...this.resumeAttempted])) {
+      await storage.remove(`${Mailbox.processedNoncesTag}.${url}`);
+      await storage.remove(this.relaySessionTag(url));
+    }
+    const tags = [Mailbox.relayURLsTag, Inbox.storageTag, ReceiptTracker.storageTag, SequenceTracker.storageTag,
+      ReplayGuard.storageTag];
+    for (const tag of tags) {
+      await storage.remove(tag);
+    }
+    await Outbox.destroy(storage);
+    this.relayURLs = undefined;
+    this.inbox = undefined;
+    this.outbox = undefined;
+    this.receiptTracker = undefined;
+    this.sequenceTracker = undefined;
+    this.replayGuard = undefined;
     await this.keyRing.selfDestruct();
   }
 
+  private log(level: LogLevel, message: string, context: LogContext = {}) {
+    (this.logger ?? Log.getDefaultLogger()).log(level, message, { mailbox: this.identity, ...context });
+  }
+
   private getRelayConnectionMutex(url: string) {
     if (!this.relayConnectionMutexes.has(url)) {
       this.relayConnectionMutexes.set(url, new Mutex());
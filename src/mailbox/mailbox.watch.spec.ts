@@ -0,0 +1,108 @@
+import { MockZaxRelay } from '../relay/mock-zax-relay';
+import { GlowNetworkError } from '../relay/network-error';
+import { Utils } from '../utils/utils';
+import { ZaxMessageKind, ZaxParsedMessage, ZaxTextMessage } from '../zax.interface';
+import { MailboxWatcher } from './mailbox-watcher';
+import { setupMockMailboxes } from '../tests.helper';
+import { Mailbox } from './mailbox';
+
+describe('Mailbox / Watch', () => {
+  const mockRelay = new MockZaxRelay('https://watch.zax');
+  const url = mockRelay.url;
+  const mailboxes = setupMockMailboxes(mockRelay, ['Alice', 'Bob']);
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  beforeAll(() => {
+    [Alice, Bob] = mailboxes;
+  });
+
+  beforeEach(() => {
+    mockRelay.reset();
+  });
+
+  it('should iterate over new messages once', async () => {
+    await Alice.upload(url, 'Bob', 'first');
+    const watcher = Bob.watch(url, { interval: 5, maxInterval: 10 });
+    const received: string[] = [];
+    for await (const message of watcher) {
+      received.push((message as ZaxTextMessage).data);
+      if (received.length === 1) {
+        await Alice.upload(url, 'Bob', 'second');
+      } else {
+        break;
+      }
+    }
+    expect(received).toEqual(['first', 'second']);
+    expect(watcher.isStopped).toBe(true);
+  });
+
+  it('should emit messages again only after they are deleted and re-sent', async () => {
+    const watcher = Bob.watch(url, { interval: 5, maxInterval: 5 });
+    const received: ZaxParsedMessage[] = [];
+    watcher.on('message', message => received.push(message));
+    const nextMessage = () => new Promise(resolve => watcher.once('message', resolve));
+
+    let next = nextMessage();
+    await Alice.upload(url, 'Bob', 'hello');
+    await next;
+    // a few more polls download the same message
+    await Utils.delay(30);
+    expect(received).toHaveLength(1);
+
+    next = nextMessage();
+    await Bob.delete(url, [received[0].nonce]);
+    await Alice.upload(url, 'Bob', 'hello again');
+    await next;
+    watcher.stop();
+    expect(received.map(message => (message as ZaxTextMessage).data)).toEqual(['hello', 'hello again']);
+  });
+
+  it('should reconnect after the session is dropped', async () => {
+    const watcher = Bob.watch(url, { interval: 5, maxInterval: 5 });
+    const message = new Promise<ZaxParsedMessage>(resolve => watcher.once('message', resolve));
+    await Utils.delay(20);
+    // relay forgets all sessions, so the next poll gets 401
+    mockRelay.reset();
+    await Alice.upload(url, 'Bob', 'after reset');
+    expect((await message).kind).toBe(ZaxMessageKind.message);
+    watcher.stop();
+  });
+
+  it('should back off while idle and on errors', async () => {
+    const polls: number[] = [];
+    let failing = true;
+    const watcher = new MailboxWatcher(async () => {
+      polls.push(Date.now());
+      if (failing) {
+        throw new GlowNetworkError(503);
+      }
+      return [];
+    }, { interval: 2, maxInterval: 8 });
+    const errors: Error[] = [];
+    watcher.on('error', error => errors.push(error));
+
+    await Utils.delay(40);
+    failing = false;
+    await Utils.delay(40);
+    watcher.stop();
+    expect(errors.length).toBeGreaterThan(0);
+    expect(errors[0]).toBeInstanceOf(GlowNetworkError);
+    expect(watcher.interval).toBe(8);
+    const count = polls.length;
+    await Utils.delay(20);
+    expect(polls).toHaveLength(count);
+  });
+
+  it('should stop when aborted', async () => {
+    const controller = new AbortController();
+    const watcher = Bob.watch(url, { signal: controller.signal });
+    const stopped = jest.fn();
+    watcher.on('stop', stopped);
+    controller.abort();
+    expect(watcher.isStopped).toBe(true);
+    expect(stopped).toHaveBeenCalledTimes(1);
+    const iterator = watcher[Symbol.asyncIterator]();
+    expect((await iterator.next()).done).toBe(true);
+  });
+});
@@ -0,0 +1,35 @@
+import { config } from '../config';
+import { MessageEnvelope } from '../zax.interface';
+
+// holds the envelope version, and distinguishes envelopes from app messages that happen to be JSON
+const envelopeTag = '$glowEnvelope';
+
+export function serializeEnvelope(envelope: MessageEnvelope): string {
+  const { version, contentType, id, createdAt, payload } = envelope;
+  return JSON.stringify({ [envelopeTag]: version, contentType, id, createdAt, payload });
+}
+
+/**
+ * Returns an envelope of a supported version, or `null` if the message is a raw string
+ * or an envelope of a newer version
+ */
+export function parseEnvelope(message: string): MessageEnvelope | null {
+  if (!message.startsWith(`{"${envelopeTag}"`)) {
+    return null;
+  }
+  try {
+    const { [envelopeTag]: version, contentType, id, createdAt, payload } = JSON.parse(message);
+    const envelope = { version, contentType, id, createdAt, payload };
+    return isValidEnvelope(envelope) ? envelope : null;
+  } catch {
+    return null;
+  }
+}
+
+function isValidEnvelope(data: MessageEnvelope): boolean {
+  return Number.isInteger(data.version) && data.version >= 1 && data.version <= config.MESSAGE_ENVELOPE_VERSION
+    && typeof data.contentType === 'string'
+    && typeof data.id === 'string'
+    && Number.isFinite(data.createdAt)
+    && data.payload !== undefined;
+}
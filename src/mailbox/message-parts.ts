@@ -0,0 +1,141 @@
+import { config } from '../config';
+import { Base64 } from '../utils/utils';
+import { ZaxTextMessage } from '../zax.interface';
+
+/**
+ * A numbered part of a text message that exceeds the max message size of a Mailbox.
+ * Parts of one message share `id`
+ */
+export interface MessagePart {
+  id: Base64;
+  index: number;
+  total: number;
+  data: string;
+}
+
+// distinguishes parts from app messages that happen to be JSON
+const partTag = '$glowPart';
+
+function utf8Size(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Returns the size of a message in bytes once it's encoded as UTF-8 for encryption
+ */
+export function messageSize(message: string): number {
+  let size = 0;
+  for (const char of message) {
+    size += utf8Size(char);
+  }
+  return size;
+}
+
+/**
+ * Splits a message into encoded parts of at most `partSize` bytes of the original text in UTF-8.
+ * Characters are never split between parts
+ */
+export function splitMessage(id: Base64, message: string, partSize: number): string[] {
+  const chunks: string[] = [];
+  let chunk = '';
+  let size = 0;
+  for (const char of message) {
+    if (chunk && size + utf8Size(char) > partSize) {
+      chunks.push(chunk);
+      chunk = '';
+      size = 0;
+    }
+    chunk += char;
+    size += utf8Size(char);
+  }
+  chunks.push(chunk);
+  return chunks.map((data, index) => JSON.stringify({
+    [partTag]: { id, index, total: chunks.length },
+    data
+  }));
+}
+
+/**
+ * Returns a message part, or `null` if the message is a regular one
+ */
+export function parseMessagePart(message: string): MessagePart | null {
+  if (!message.startsWith(`{"${partTag}"`)) {
+    return null;
+  }
+  try {
+    const { [partTag]: { id, index, total }, data } = JSON.parse(message);
+    const valid = typeof id === 'string' && typeof data === 'string'
+      && Number.isInteger(total) && Number.isInteger(index) && index >= 0 && index < total;
+    return valid ? { id, index, total, data } : null;
+  } catch {
+    return null;
+  }
+}
+
+interface PendingMessage {
+  parts: Map<number, ZaxTextMessage>;
+  total: number;
+}
+
+/**
+ * Collects downloaded parts of text messages, and joins them once all parts have arrived.
+ * Incomplete messages are held until their first part is older than `config.MESSAGE_PARTS_TTL`.
+ * Nonces of the parts of joined messages are kept until the messages are deleted or expire
+ */
+export class MessageAssembler {
+  private pending = new Map<string, PendingMessage>();
+  // parts of assembled messages, by the nonce of the first part
+  private assembled = new Map<Base64, ZaxTextMessage[]>();
+
+  /**
+   * Adds a downloaded part. Returns the complete message with the nonce of its first part,
+   * or `null` while some parts are still missing
+   */
+  add(message: ZaxTextMessage, part: MessagePart): ZaxTextMessage | null {
+    this.dropExpired();
+    if (this.isExpired(message)) {
+      return null;
+    }
+    const key = `${message.senderTag}:${part.id}`;
+    const pending = this.pending.get(key) ?? { parts: new Map(), total: part.total };
+    pending.parts.set(part.index, { ...message, data: part.data });
+    this.pending.set(key, pending);
+    if (pending.parts.size < pending.total) {
+      return null;
+    }
+
+    this.pending.delete(key);
+    const parts = [...pending.parts.entries()].sort(([a], [b]) => a - b).map(([, partMessage]) => partMessage);
+    this.assembled.set(parts[0].nonce, parts);
+    return { ...parts[0], data: parts.map(partMessage => partMessage.data).join('') };
+  }
+
+  /**
+   * Replaces nonces of assembled messages with nonces of all their parts, which are about to be deleted
+   */
+  expandNonces(nonces: Base64[]): Base64[] {
+    return nonces.flatMap(nonce => {
+      const parts = this.assembled.get(nonce);
+      this.assembled.delete(nonce);
+      return parts?.map(part => part.nonce) ?? [nonce];
+    });
+  }
+
+  private isExpired(message: ZaxTextMessage) {
+    return message.time * 1000 < Date.now() - config.MESSAGE_PARTS_TTL;
+  }
+
+  private dropExpired() {
+    for (const [key, { parts }] of this.pending) {
+      if ([...parts.values()].some(message => this.isExpired(message))) {
+        this.pending.delete(key);
+      }
+    }
+    for (const [nonce, parts] of this.assembled) {
+      if (parts.some(message => this.isExpired(message))) {
+        this.assembled.delete(nonce);
+      }
+    }
+  }
+}
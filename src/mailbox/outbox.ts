@@ -0,0 +1,313 @@
+import { config } from '../config';
+import { CryptoStorage } from '../crypto-storage/crypto-storage';
+import { NaCl } from '../nacl/nacl';
+import { EventEmitter } from '../utils/event-emitter';
+import { Base64, Utils } from '../utils/utils';
+import { FileUploadMetadata } from '../zax.interface';
+import { GlowNetworkError } from '../relay/network-error';
+import { GlowAbortError } from '../relay/abort-error';
+import { isTransientError } from './retry-policy';
+
+export type OutboxItemStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+interface OutboxItemBase {
+  id: Base64;
+  // URL of the relay to upload to
+  url: string;
+  guest: string;
+  status: OutboxItemStatus;
+  // Failed attempts to send the item
+  attempts: number;
+  // Unix time in milliseconds when the item was queued
+  createdAt: number;
+  // Storage token of a sent message or file
+  token?: Base64;
+  // Message of the last error
+  error?: string;
+}
+
+export interface OutboxMessageItem extends OutboxItemBase {
+  type: 'message';
+  message: string;
+}
+
+/**
+ * Upload session of a file item, kept to resume the upload after a failed chunk
+ */
+export interface OutboxFileUpload {
+  uploadID: string;
+  // Symmetric key of the upload session
+  skey: Base64;
+  storageToken: Base64;
+  maxChunkSize: number;
+  // Index of the first chunk that wasn't uploaded yet
+  nextPart: number;
+}
+
+export interface OutboxFileItem extends OutboxItemBase {
+  type: 'file';
+  metadata: FileUploadMetadata;
+  // File contents, kept in storage apart from the queue
+  file: Base64;
+  // Set once the relay has started the upload
+  upload?: OutboxFileUpload;
+}
+
+export type OutboxItem = OutboxMessageItem | OutboxFileItem;
+
+/**
+ * Sends an item and returns its storage token. Progress of an item changed while it's sent,
+ * such as an upload session, is kept by calling `save`
+ */
+export type OutboxSender = (item: OutboxItem, save: () => Promise<void>, signal?: AbortSignal) => Promise<Base64>;
+
+export type OutboxEvents = {
+  status: [item: OutboxItem];
+};
+
+export interface OutboxOptions {
+  // Attempts to send an item before it's marked as failed
+  maxAttempts?: number;
+  // Delay in milliseconds before queued items are sent again after a network error
+  retryInterval?: number;
+}
+
+/**
+ * Durable queue of outgoing messages and file uploads, kept in the encrypted storage of a Mailbox.
+ * Items are sent in order per relay. Network errors without a response from the relay leave an item queued,
+ * and the following items for the same relay wait for it. Other errors, or too many attempts, mark an item
+ * as failed: a relay may have stored a message before it failed to respond, so sending it again could
+ * deliver it twice. File uploads are resumed from the first chunk that wasn't uploaded, and are retried
+ * after any transient error once the relay has started them. Sent items are removed from the queue
+ * once their `sent` status is reported.
+ * Messages that were being sent when the app stopped are sent again, so they may be delivered twice
+ */
+export class Outbox extends EventEmitter<OutboxEvents> {
+  static readonly storageTag = 'outbox';
+  static readonly fileTag = 'outbox_file';
+
+  private maxAttempts = config.OUTBOX_MAX_ATTEMPTS;
+  private retryInterval = config.OUTBOX_RETRY_INTERVAL;
+  private running = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private flushing?: Promise<OutboxItem[]>;
+  private onlineListener = () => this.flushInBackground();
+
+  private constructor(private storage: CryptoStorage, private queue: OutboxItem[], private send: OutboxSender) {
+    super();
+  }
+
+  static async load(storage: CryptoStorage, send: OutboxSender): Promise<Outbox> {
+    const queue = await storage.get<OutboxItem[]>(Outbox.storageTag) ?? [];
+    queue.filter(item => item.status === 'sending').forEach(item => item.status = 'queued');
+    for (const item of queue) {
+      if (item.type !== 'file') {
+        continue;
+      }
+      // files were kept in the queue by earlier versions
+      if (item.file) {
+        await storage.save(Outbox.fileTagOf(item.id), item.file);
+      } else {
+        item.file = await storage.get<Base64>(Outbox.fileTagOf(item.id)) ?? '';
+      }
+    }
+    return new Outbox(storage, queue, send);
+  }
+
+  /**
+   * Removes the queue and queued files from storage
+   */
+  static async destroy(storage: CryptoStorage) {
+    const queue = await storage.get<OutboxItem[]>(Outbox.storageTag) ?? [];
+    for (const item of queue) {
+      await storage.remove(Outbox.fileTagOf(item.id));
+    }
+    await storage.remove(Outbox.storageTag);
+  }
+
+  setOptions({ maxAttempts, retryInterval }: OutboxOptions) {
+    this.maxAttempts = maxAttempts ?? this.maxAttempts;
+    this.retryInterval = retryInterval ?? this.retryInterval;
+  }
+
+  get(id: Base64): OutboxItem | undefined {
+    return this.queue.find(item => item.id === id);
+  }
+
+  items(status?: OutboxItemStatus): OutboxItem[] {
+    return this.queue.filter(item => status === undefined || item.status === status);
+  }
+
+  async enqueueMessage(url: string, guest: string, message: string): Promise<OutboxMessageItem> {
+    const item: OutboxMessageItem = { ...await this.newItem(url, guest), type: 'message', message };
+    await this.add(item);
+    return item;
+  }
+
+  async enqueueFile(url: string, guest: string, metadata: FileUploadMetadata,
+    file: Uint8Array): Promise<OutboxFileItem> {
+    const item: OutboxFileItem = {
+      ...await this.newItem(url, guest), type: 'file', metadata, file: Utils.toBase64(file)
+    };
+    await this.storage.save(Outbox.fileTagOf(item.id), item.file);
+    await this.add(item);
+    return item;
+  }
+
+  /**
+   * Queues a failed item again
+   */
+  async retry(id: Base64) {
+    const item = this.get(id);
+    if (item?.status === 'failed') {
+      item.attempts = 0;
+      await this.setStatus(item, 'queued');
+      this.flushInBackground();
+    }
+  }
+
+  /**
+   * Removes an item unless it's being sent
+   */
+  async remove(id: Base64) {
+    const item = this.get(id);
+    if (item && item.status !== 'sending') {
+      await this.drop(item);
+    }
+  }
+
+  /**
+   * Sends queued items in order, and returns the items that were sent. If items are already
+   * being sent, waits for that instead, and aborting `signal` stops waiting with `GlowAbortError`
+   */
+  async flush(signal?: AbortSignal): Promise<OutboxItem[]> {
+    if (this.flushing) {
+      return await this.waitForFlush(this.flushing, signal);
+    }
+    this.flushing = this.sendQueued(signal).finally(() => this.flushing = undefined);
+    return await this.flushing;
+  }
+
+  /**
+   * Starts sending queued items automatically: right away, after new items are queued,
+   * after network errors with `retryInterval`, and when a browser goes back online
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    globalThis.addEventListener?.('online', this.onlineListener);
+    this.flushInBackground();
+  }
+
+  stop() {
+    this.running = false;
+    clearTimeout(this.timer);
+    globalThis.removeEventListener?.('online', this.onlineListener);
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  private async newItem(url: string, guest: string): Promise<OutboxItemBase> {
+    const id = Utils.toBase64(await NaCl.getInstance().random_bytes(config.RELAY_TOKEN_LEN));
+    return { id, url, guest, status: 'queued', attempts: 0, createdAt: Date.now() };
+  }
+
+  private async add(item: OutboxItem) {
+    this.queue.push(item);
+    await this.save();
+    this.emit('status', item);
+    this.flushInBackground();
+  }
+
+  private async sendQueued(signal?: AbortSignal): Promise<OutboxItem[]> {
+    const sent: OutboxItem[] = [];
+    // relays that failed with a network error during this flush
+    const unavailable = new Set<string>();
+    // items queued while flushing are sent too
+    const next = () => signal?.aborted ? undefined :
+      this.queue.find(item => item.status === 'queued' && !unavailable.has(item.url));
+    for (let item = next(); item; item = next()) {
+      await this.setStatus(item, 'sending');
+      try {
+        item.token = await this.send(item, () => this.save(), signal);
+        delete item.error;
+        item.status = 'sent';
+        await this.drop(item);
+        this.emit('status', item);
+        sent.push(item);
+      } catch (err) {
+        item.attempts++;
+        item.error = err instanceof Error ? err.message : String(err);
+        const retry = this.canRetry(item, err) && item.attempts < this.maxAttempts;
+        if (retry) {
+          unavailable.add(item.url);
+        }
+        await this.setStatus(item, retry || signal?.aborted ? 'queued' : 'failed');
+      }
+    }
+    if (unavailable.size) {
+      this.scheduleRetry();
+    }
+    return sent;
+  }
+
+  /**
+   * Network errors are retried automatically unless the relay may have stored the item already
+   */
+  private canRetry(item: OutboxItem, err: unknown): err is GlowNetworkError {
+    return isTransientError(err) && (err.status === 0 || (item.type === 'file' && !!item.upload));
+  }
+
+  private flushInBackground() {
+    if (this.running) {
+      // errors are reflected in item statuses
+      this.flush().catch(() => undefined);
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.running) {
+      clearTimeout(this.timer);
+      this.timer = Utils.unrefTimer(setTimeout(() => this.flushInBackground(), this.retryInterval));
+    }
+  }
+
+  private async setStatus(item: OutboxItem, status: OutboxItemStatus) {
+    item.status = status;
+    await this.save();
+    this.emit('status', item);
+  }
+
+  private waitForFlush(flushing: Promise<OutboxItem[]>, signal?: AbortSignal): Promise<OutboxItem[]> {
+    return new Promise((resolve, reject) => {
+      GlowAbortError.throwIfAborted(signal);
+      const onAbort = () => reject(new GlowAbortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+      flushing.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private async drop(item: OutboxItem) {
+    this.queue = this.queue.filter(queued => queued !== item);
+    await this.save();
+    if (item.type === 'file') {
+      await this.storage.remove(Outbox.fileTagOf(item.id));
+    }
+  }
+
+  /**
+   * Saves the queue without file contents, which are saved once when a file is queued
+   */
+  private async save() {
+    const queue = this.queue.map(item => item.type === 'file' ? { ...item, file: undefined } : item);
+    await this.storage.save(Outbox.storageTag, queue);
+  }
+
+  private static fileTagOf(id: Base64) {
+    return `${Outbox.fileTag}.${id}`;
+  }
+}
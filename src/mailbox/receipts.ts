@@ -0,0 +1,94 @@
+import { config } from '../config';
+import { CryptoStorage } from '../crypto-storage/crypto-storage';
+import { Base64 } from '../utils/utils';
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+/**
+ * Delivery state of a sent message, as reported by receipts of its recipient
+ */
+export interface MessageReceipt {
+  // Nonce of the sent message, which is referenced by receipts
+  nonce: Base64;
+  // Storage token returned by the upload
+  token: Base64;
+  guest: string;
+  status: ReceiptStatus;
+  // Unix times in milliseconds
+  sentAt: number;
+  deliveredAt?: number;
+  readAt?: number;
+}
+
+/**
+ * Payload of a receipt envelope sent back by a recipient
+ */
+export interface ReceiptPayload {
+  nonce: Base64;
+  status: 'delivered' | 'read';
+}
+
+export const receiptContentType = 'application/vnd.glow.receipt';
+
+export function isReceiptPayload(payload: unknown): payload is ReceiptPayload {
+  const { nonce, status } = (payload ?? {}) as ReceiptPayload;
+  return typeof nonce === 'string' && (status === 'delivered' || status === 'read');
+}
+
+const statusOrder: ReceiptStatus[] = ['sent', 'delivered', 'read'];
+
+/**
+ * Receipt state of sent messages, kept in the encrypted storage of a Mailbox
+ * for `config.RECEIPTS_MAX_AGE`
+ */
+export class ReceiptTracker {
+  static readonly storageTag = 'receipts';
+
+  private constructor(private storage: CryptoStorage, private receipts: Map<Base64, MessageReceipt>) { }
+
+  static async load(storage: CryptoStorage): Promise<ReceiptTracker> {
+    const receipts = await storage.get<MessageReceipt[]>(ReceiptTracker.storageTag) ?? [];
+    return new ReceiptTracker(storage, new Map(receipts.map(receipt => [receipt.nonce, receipt])));
+  }
+
+  get(token: Base64): MessageReceipt | undefined {
+    return [...this.receipts.values()].find(receipt => receipt.token === token);
+  }
+
+  getAll(guest?: string): MessageReceipt[] {
+    return [...this.receipts.values()].filter(receipt => guest === undefined || receipt.guest === guest);
+  }
+
+  async track(nonce: Base64, token: Base64, guest: string) {
+    this.receipts.set(nonce, { nonce, token, guest, status: 'sent', sentAt: Date.now() });
+    await this.save();
+  }
+
+  /**
+   * Updates a sent message with a receipt from its recipient. Receipts of other guests
+   * and the ones that would move a message back to an earlier status are ignored
+   */
+  async apply(guest: string, { nonce, status }: ReceiptPayload): Promise<MessageReceipt | undefined> {
+    const receipt = this.receipts.get(nonce);
+    if (!receipt || receipt.guest !== guest || statusOrder.indexOf(status) <= statusOrder.indexOf(receipt.status)) {
+      return;
+    }
+    receipt.status = status;
+    receipt.deliveredAt = receipt.deliveredAt ?? Date.now();
+    if (status === 'read') {
+      receipt.readAt = Date.now();
+    }
+    await this.save();
+    return receipt;
+  }
+
+  private async save() {
+    const oldest = Date.now() - config.RECEIPTS_MAX_AGE;
+    for (const [nonce, receipt] of this.receipts) {
+      if (receipt.sentAt < oldest) {
+        this.receipts.delete(nonce);
+      }
+    }
+    await this.storage.save(ReceiptTracker.storageTag, [...this.receipts.values()]);
+  }
+}
@@ -0,0 +1,73 @@
+import { GlowNetworkError } from '../relay/network-error';
+import { GlowProtocolError, GlowReplicationError } from '../errors';
+import { RelaySet } from './relay-set';
+
+describe('RelaySet', () => {
+  const urls = ['https://a.zax', 'https://b.zax', 'https://c.zax'];
+
+  it('should require at least one relay', () => {
+    expect(() => new RelaySet([])).toThrow(GlowProtocolError);
+    expect(() => new RelaySet([])).toThrow(expect.objectContaining({ code: 'INVALID_CONFIGURATION' }));
+  });
+
+  it('should fail over to the next relay on network errors', async () => {
+    const relays = new RelaySet(urls);
+    const result = await relays.failover(async url => {
+      if (url === urls[0]) {
+        throw new GlowNetworkError(0);
+      }
+      return url;
+    });
+    expect(result).toBe(urls[1]);
+    expect(relays.isHealthy(urls[0])).toBe(false);
+    expect(relays.orderedUrls).toEqual([urls[1], urls[2], urls[0]]);
+  });
+
+  it('should not fail over on other errors', async () => {
+    const relays = new RelaySet(urls);
+    const operation = jest.fn().mockRejectedValue(new GlowNetworkError(400));
+    await expect(relays.failover(operation)).rejects.toEqual(new GlowNetworkError(400));
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last network error when all relays are down', async () => {
+    const relays = new RelaySet(urls);
+    await expect(relays.failover(() => Promise.reject(new GlowNetworkError(503))))
+      .rejects.toEqual(new GlowNetworkError(503));
+    expect(urls.some(url => relays.isHealthy(url))).toBe(false);
+  });
+
+  it('should recover relays after cooldown', async () => {
+    const relays = new RelaySet(urls, { cooldown: 0 });
+    relays.markFailed(urls[0]);
+    expect(relays.isHealthy(urls[0])).toBe(true);
+  });
+
+  it('should replicate an operation to the requested number of relays', async () => {
+    const relays = new RelaySet(urls, { redundancy: 2 });
+    const results = await relays.replicate(async url => {
+      if (url === urls[1]) {
+        throw new GlowNetworkError(408);
+      }
+      return url.length;
+    });
+    expect([...results.keys()]).toEqual([urls[0], urls[2]]);
+  });
+
+  it('should keep results of other relays when a relay fails with other errors', async () => {
+    const relays = new RelaySet(urls, { redundancy: 2 });
+    const operation = jest.fn(async (url: string) => {
+      if (url === urls[0]) {
+        throw new GlowNetworkError(400);
+      }
+      return url.length;
+    });
+    const error = await relays.replicate(operation).catch(err => err);
+    expect(error).toBeInstanceOf(GlowReplicationError);
+    expect(error.code).toBe('REPLICATION_FAILED');
+    expect(error.results).toEqual(new Map([[urls[1], urls[1].length]]));
+    expect(error.errors).toEqual(new Map([[urls[0], new GlowNetworkError(400)]]));
+    // relays are not replaced after errors other than network failures
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+});
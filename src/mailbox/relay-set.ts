@@ -0,0 +1,126 @@
+import { config } from '../config';
+import { isTransientError } from './retry-policy';
+import { GlowProtocolError, GlowReplicationError } from '../errors';
+
+export interface RelaySetOptions {
+  // Number of relays each message is uploaded to
+  redundancy?: number;
+  // Time in milliseconds a relay is skipped for after a network failure
+  cooldown?: number;
+}
+
+/**
+ * A group of relay URLs that are used together for redundancy. Keeps track of relays
+ * that have recently failed with network errors, so that operations are sent
+ * to healthy relays first. Single-relay commands of a Mailbox are run with `failover`,
+ * e.g. `relays.failover(url => mailbox.count(url))`
+ */
+export class RelaySet {
+  readonly redundancy: number;
+  private cooldown: number;
+  // URL -> timestamp until which the relay is considered unhealthy
+  private unhealthyUntil = new Map<string, number>();
+
+  constructor(public readonly urls: string[], options: RelaySetOptions = {}) {
+    if (!urls.length) {
+      throw new GlowProtocolError('INVALID_CONFIGURATION', '[RelaySet] At least one relay URL is required');
+    }
+    this.redundancy = Math.min(options.redundancy ?? 1, urls.length);
+    this.cooldown = options.cooldown ?? config.RELAY_FAILOVER_COOLDOWN;
+  }
+
+  /**
+   * All relay URLs, healthy ones first, in the original order otherwise
+   */
+  get orderedUrls(): string[] {
+    const healthy = this.urls.filter(url => this.isHealthy(url));
+    return [...healthy, ...this.urls.filter(url => !healthy.includes(url))];
+  }
+
+  isHealthy(url: string): boolean {
+    return (this.unhealthyUntil.get(url) ?? 0) <= Date.now();
+  }
+
+  markFailed(url: string) {
+    this.unhealthyUntil.set(url, Date.now() + this.cooldown);
+  }
+
+  markHealthy(url: string) {
+    this.unhealthyUntil.delete(url);
+  }
+
+  /**
+   * Runs the operation on the first healthy relay, and fails over to the next relay
+   * on network errors. Other errors are thrown right away
+   */
+  async failover<T>(operation: (url: string) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (const url of this.orderedUrls) {
+      try {
+        return await this.track(url, operation);
+      } catch (err) {
+        if (!isTransientError(err)) {
+          throw err;
+        }
+        lastError = err;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Runs the operation on `count` relays in parallel, replacing relays that failed with network errors
+   * with the remaining ones. Returns results by relay URL, and throws the last network error if no relay
+   * succeeded. Other errors stop replacing relays, and are thrown as `GlowReplicationError` along with
+   * the results of the relays that succeeded
+   */
+  async replicate<T>(operation: (url: string) => Promise<T>, count = this.redundancy): Promise<Map<string, T>> {
+    const results = new Map<string, T>();
+    const errors = new Map<string, unknown>();
+    const candidates = this.orderedUrls;
+    let lastError: unknown;
+
+    while (results.size < count && candidates.length && !errors.size) {
+      const batch = candidates.splice(0, count - results.size);
+      const settled = await Promise.allSettled(batch.map(url => this.track(url, operation)));
+      settled.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+          results.set(batch[i], result.value);
+        } else if (isTransientError(result.reason)) {
+          lastError = result.reason;
+        } else {
+          errors.set(batch[i], result.reason);
+        }
+      });
+    }
+
+    if (errors.size) {
+      throw new GlowReplicationError(results, errors);
+    }
+    if (!results.size) {
+      throw lastError;
+    }
+    return results;
+  }
+
+  /**
+   * Runs the operation on all relays in parallel, and returns results of the ones that succeeded.
+   * Throws the last network error if all relays failed
+   */
+  async all<T>(operation: (url: string) => Promise<T>): Promise<Map<string, T>> {
+    return this.replicate(operation, this.urls.length);
+  }
+
+  private async track<T>(url: string, operation: (url: string) => Promise<T>): Promise<T> {
+    try {
+      const result = await operation(url);
+      this.markHealthy(url);
+      return result;
+    } catch (err) {
+      if (isTransientError(err)) {
+        this.markFailed(url);
+      }
+      throw err;
+    }
+  }
+}
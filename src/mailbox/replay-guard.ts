@@ -0,0 +1,78 @@
+import { config } from '../config';
+import { CryptoStorage } from '../crypto-storage/crypto-storage';
+import { EncryptionHelper } from '../nacl/encryption.helper';
+import { Base64, Utils } from '../utils/utils';
+import { ZaxRejectReason } from '../zax.interface';
+
+export interface ReplayGuardOptions {
+  // Max age of a message by its nonce timestamp, in milliseconds
+  window?: number;
+  // Tolerated difference of the sender clock ahead of ours, in milliseconds
+  clockSkew?: number;
+  // Max number of nonces remembered per guest, the oldest ones are dropped first
+  cacheSize?: number;
+}
+
+interface SeenNonce {
+  nonce: Base64;
+  relay: string;
+  // Relay time of the message, which stays the same while the message is downloaded again
+  time: number;
+}
+
+/**
+ * Rejects messages with nonce timestamps outside of the acceptance window, and messages
+ * that were already received but stored again on a relay, i.e. replayed ciphertexts.
+ * Seen nonces are kept per guest in the encrypted storage of a Mailbox
+ */
+export class ReplayGuard {
+  static readonly storageTag = 'replay_guard';
+
+  private window: number;
+  private clockSkew: number;
+  private cacheSize: number;
+  private changed = false;
+
+  private constructor(private storage: CryptoStorage, private seen: { [guest: string]: SeenNonce[] },
+    options: ReplayGuardOptions) {
+    this.window = options.window ?? config.REPLAY_WINDOW;
+    this.clockSkew = options.clockSkew ?? config.REPLAY_CLOCK_SKEW;
+    this.cacheSize = options.cacheSize ?? config.REPLAY_CACHE_SIZE;
+  }
+
+  static async load(storage: CryptoStorage, options: ReplayGuardOptions = {}): Promise<ReplayGuard> {
+    const seen = await storage.get<{ [guest: string]: SeenNonce[] }>(ReplayGuard.storageTag) ?? {};
+    return new ReplayGuard(storage, seen, options);
+  }
+
+  /**
+   * Checks a decrypted message by the nonce it was encrypted with. Returns the reason
+   * to reject it, or `null` if it's accepted. Copies of a message on other relays are accepted
+   */
+  check(guest: string, relay: string, nonce: Base64, time: number): ZaxRejectReason | null {
+    const timestamp = EncryptionHelper.nonceTimestamp(Utils.fromBase64(nonce)) * 1000;
+    if (timestamp < Date.now() - this.window || timestamp > Date.now() + this.clockSkew) {
+      return 'outOfWindow';
+    }
+
+    const seen = this.seen[guest] ?? [];
+    const known = seen.find(entry => entry.nonce === nonce && entry.relay === relay);
+    if (known) {
+      return known.time === time ? null : 'replayed';
+    }
+    seen.push({ nonce, relay, time });
+    this.seen[guest] = seen.slice(-this.cacheSize);
+    this.changed = true;
+    return null;
+  }
+
+  /**
+   * Saves nonces seen since the last call
+   */
+  async save() {
+    if (this.changed) {
+      this.changed = false;
+      await this.storage.save(ReplayGuard.storageTag, this.seen);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { config } from '../config';
+import { RelayCommands } from '../relay/relay-commands';
+import { GlowNetworkError } from '../relay/network-error';
+
+export interface RetryEvent {
+  command: string;
+  // Number of the failed attempt, starting from 1
+  attempt: number;
+  error: GlowNetworkError;
+  // Delay in milliseconds before the next attempt
+  delay: number;
+}
+
+export interface RetryPolicy {
+  // Max number of attempts per command, including the first one. Set to 1 to disable retries
+  maxAttempts: number;
+  // Backoff delay after the first failed attempt, in milliseconds
+  baseDelay: number;
+  maxDelay: number;
+  // Share of the delay (0..1) that is randomized to spread out retries of concurrent clients
+  jitter: number;
+  // Retry commands that are not safe to replay (e.g. `upload`) on errors that may occur after a relay
+  // has already processed them. Off by default, as it may deliver duplicates
+  retryNonIdempotent: boolean;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: config.RELAY_RETRY_ATTEMPTS,
+  baseDelay: config.RELAY_RETRY_BASE_DELAY,
+  maxDelay: config.RELAY_RETRY_MAX_DELAY,
+  jitter: 0.5,
+  retryNonIdempotent: false
+};
+
+/**
+ * Returns `true` for network errors that may go away on their own: connectivity issues (0),
+ * timeouts (408) and server errors (5xx)
+ */
+export function isTransientError(error: unknown): error is GlowNetworkError {
+  if (!(error instanceof GlowNetworkError) || error.status === undefined) {
+    return false;
+  }
+  return error.status === 0 || error.status === 408 || (error.status >= 500 && error.status < 600);
+}
+
+/**
+ * Commands that create a new entity on a relay each time they are executed (e.g. `upload`)
+ * are declared as non-idempotent, and retried only if the policy allows it
+ */
+export function canRetryTransientError(policy: RetryPolicy, command: string): boolean {
+  return policy.retryNonIdempotent || RelayCommands.get(command)?.idempotent !== false;
+}
+
+/**
+ * Exponential backoff with jitter for the given failed attempt
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - policy.jitter * Math.random()));
+}
@@ -0,0 +1,142 @@
+import { config } from '../config';
+import { CryptoStorage } from '../crypto-storage/crypto-storage';
+import { Base64 } from '../utils/utils';
+import { ZaxParsedMessage, ZaxTextMessage, ZaxMessageKind } from '../zax.interface';
+
+// distinguishes sequenced messages from app messages that happen to be JSON
+const sequenceTag = '$glowSeq';
+
+export function wrapSequenced(seq: number, message: string): string {
+  return JSON.stringify({ [sequenceTag]: seq, data: message });
+}
+
+/**
+ * Extracts a sequence number added by the sender, if any
+ */
+export function unwrapSequenced(message: ZaxTextMessage): ZaxTextMessage {
+  if (!message.data.startsWith(`{"${sequenceTag}"`)) {
+    return message;
+  }
+  try {
+    const { [sequenceTag]: seq, data } = JSON.parse(message.data);
+    return Number.isInteger(seq) && seq > 0 && typeof data === 'string' ? { ...message, data, seq } : message;
+  } catch {
+    return message;
+  }
+}
+
+interface ReceivedSequence {
+  // Highest sequence number received from a sender
+  lastSeq: number;
+  // Nonces of recently received messages by sequence number
+  nonces: { [seq: number]: Base64 };
+}
+
+interface SequenceState {
+  // Last sequence number sent to each guest
+  sent: { [guest: string]: number };
+  received: { [senderTag: string]: ReceivedSequence };
+}
+
+export interface SequenceReport {
+  // Sequence numbers skipped by each sender, reported once when a later message arrives
+  gaps: Map<string, number[]>;
+  // Messages that reuse a sequence number of another message from the same sender
+  duplicates: ZaxTextMessage[];
+}
+
+/**
+ * Per-guest sequence numbers of sent messages, and the ones received from each sender,
+ * kept in the encrypted storage of a Mailbox
+ */
+export class SequenceTracker {
+  static readonly storageTag = 'sequence';
+
+  private constructor(private storage: CryptoStorage, private state: SequenceState) { }
+
+  static async load(storage: CryptoStorage): Promise<SequenceTracker> {
+    const state = await storage.get<SequenceState>(SequenceTracker.storageTag) ?? { sent: {}, received: {} };
+    return new SequenceTracker(storage, state);
+  }
+
+  /**
+   * Allocates the next sequence number for a message to a guest, starting from 1
+   */
+  async next(guest: string): Promise<number> {
+    const seq = (this.state.sent[guest] ?? 0) + 1;
+    this.state.sent[guest] = seq;
+    await this.save();
+    return seq;
+  }
+
+  /**
+   * Returns a sequence number of a message that failed to upload, unless a later one is already taken
+   */
+  async release(guest: string, seq: number) {
+    if (this.state.sent[guest] === seq) {
+      this.state.sent[guest] = seq - 1;
+      await this.save();
+    }
+  }
+
+  /**
+   * Orders sequenced messages of each sender by sequence number, keeping positions of
+   * other messages, and reports gaps and duplicates. A message downloaded again
+   * is recognized by its nonce
+   */
+  async receive(messages: ZaxParsedMessage[]): Promise<{ messages: ZaxParsedMessage[], report: SequenceReport }> {
+    const report: SequenceReport = { gaps: new Map(), duplicates: [] };
+    const bySender = new Map<string, number[]>();
+    messages.forEach((message, i) => {
+      if (message.kind === ZaxMessageKind.message && message.seq !== undefined) {
+        bySender.set(message.senderTag, [...bySender.get(message.senderTag) ?? [], i]);
+      }
+    });
+    if (!bySender.size) {
+      return { messages, report };
+    }
+
+    const ordered = [...messages];
+    for (const [senderTag, positions] of bySender) {
+      const sorted = positions.map(i => messages[i] as ZaxTextMessage).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+      positions.forEach((position, i) => ordered[position] = sorted[i]);
+      this.receiveFrom(senderTag, sorted, report);
+    }
+    await this.save();
+    return { messages: ordered, report };
+  }
+
+  private receiveFrom(senderTag: string, messages: ZaxTextMessage[], report: SequenceReport) {
+    const received = this.state.received[senderTag] ?? { lastSeq: 0, nonces: {} };
+    const gaps: number[] = [];
+    for (const message of messages) {
+      const seq = message.seq as number;
+      const knownNonce = received.nonces[seq];
+      if (knownNonce !== undefined) {
+        if (knownNonce !== message.nonce) {
+          report.duplicates.push(message);
+        }
+        continue;
+      }
+      received.nonces[seq] = message.nonce;
+      for (let missing = received.lastSeq + 1; missing < seq; missing++) {
+        gaps.push(missing);
+      }
+      received.lastSeq = Math.max(received.lastSeq, seq);
+    }
+    // nonces of old messages are forgotten
+    for (const seq of Object.keys(received.nonces).map(Number)) {
+      if (seq <= received.lastSeq - config.SEQUENCE_WINDOW) {
+        delete received.nonces[seq];
+      }
+    }
+    this.state.received[senderTag] = received;
+    if (gaps.length) {
+      report.gaps.set(senderTag, gaps);
+    }
+  }
+
+  private async save() {
+    await this.storage.save(SequenceTracker.storageTag, this.state);
+  }
+}
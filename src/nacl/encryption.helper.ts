@@ -93,6 +93,13 @@ export class EncryptionHelper {
     return nonce;
   }
 
+  /**
+   * Reads the timestamp in seconds from the first 8 bytes of a nonce made by `makeNonce`
+   */
+  static nonceTimestamp(nonce: Uint8Array): number {
+    return nonce.subarray(0, 8).reduce((timestamp, byte) => timestamp * 256 + byte, 0);
+  }
+
   /**
    * Splits an integer into an array of bytes
    */
@@ -0,0 +1,18 @@
+import { GlowError, GlowErrorContext } from '../errors';
+
+export class GlowAbortError extends GlowError {
+  readonly name = 'GlowAbortError';
+
+  constructor(context?: GlowErrorContext) {
+    super('ABORTED', 'GlowAbortError: operation was cancelled', context);
+  }
+
+  /**
+   * Throws `GlowAbortError` if the signal is already aborted
+   */
+  static throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw new GlowAbortError();
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { RelayRequest, RelayTransport } from './relay-transport.interface';
+import { GlowNetworkError } from './network-error';
+import { GlowAbortError } from './abort-error';
+
+/**
+ * Default transport based on the Fetch API, available in browsers and Node.js 18+
+ */
+export class FetchTransport implements RelayTransport {
+
+  constructor(private headers: { [name: string]: string } = {}) {}
+
+  async send({ url, body, timeout, signal }: RelayRequest): Promise<string> {
+    GlowAbortError.throwIfAborted(signal);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    const requestInit: RequestInit = {
+      method: 'POST',
+      headers: {
+        Accept: 'text/plain',
+        'Content-Type': 'text/plain',
+        ...this.headers
+      },
+      body,
+      signal: controller.signal,
+    };
+
+    // NOTE: Network and server errors are not handled ny Glow itself.
+    // They should instead be handled where the library is used
+    try {
+      const response = await fetch(url, requestInit);
+      if (!response.ok) {
+        throw new GlowNetworkError(response.status);
+      }
+      return await response.text();
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        if (signal?.aborted) {
+          throw new GlowAbortError();
+        }
+        // Timeout occurred during fetch request or while downloading response body
+        throw new GlowNetworkError(408);
+      }
+      if (err instanceof GlowNetworkError) {
+        throw err;
+      }
+      if (err instanceof TypeError) {
+        // Network layer errors (no internet, DNS failure, CORS, etc.)
+        // https://developer.mozilla.org/en-US/docs/Web/API/Window/fetch#exceptions
+        // Use status 0 to indicate network connectivity issues
+        throw new GlowNetworkError(0);
+      }
+      // For any other unexpected errors, re-throw the original error
+      throw err;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { NaCl } from '../nacl/nacl';
+import { CryptoStorage } from '../crypto-storage/crypto-storage';
+import { InMemoryStorage } from '../crypto-storage/in-memory-storage';
+import { Mailbox } from '../mailbox/mailbox';
+import { Relay } from './relay';
+import { GlowNetworkError } from './network-error';
+import { MockZaxRelay } from './mock-zax-relay';
+
+describe('MockZaxRelay', () => {
+  const url = 'https://mock.zax';
+  const mockRelay = new MockZaxRelay(url, { difficulty: 4 });
+  let Alice: Mailbox;
+  let Bob: Mailbox;
+
+  beforeAll(async () => {
+    NaCl.setDefaultInstance();
+    CryptoStorage.setStorageDriver(new InMemoryStorage());
+    mockRelay.install();
+
+    Alice = await Mailbox.new('Alice');
+    Bob = await Mailbox.new('Bob');
+    await Alice.keyRing.addGuest('Bob', Bob.keyRing.getPubCommKey());
+    await Bob.keyRing.addGuest('Alice', Alice.keyRing.getPubCommKey());
+  });
+
+  afterAll(() => {
+    mockRelay.uninstall();
+  });
+
+  it('should complete the handshake with difficulty', async () => {
+    const relay = new Relay(url);
+    const connection = await relay.openConnection();
+    expect(connection.relayPublicKey).toHaveLength(32);
+    expect(await Alice.connectToRelay(url)).toBe(0);
+  });
+
+  it('should deliver messages between mailboxes', async () => {
+    await Alice.upload(url, 'Bob', 'hello');
+    expect(await Bob.count(url)).toBe(1);
+    const [message] = await Bob.download(url);
+    expect(message.data).toBe('hello');
+    expect(message.senderTag).toBe('Alice');
+    expect(await Bob.delete(url, [message.nonce])).toBe(0);
+  });
+
+  it('should reject commands after sessions expire', async () => {
+    await Alice.connectToRelay(url);
+    mockRelay.expireSessions();
+    Alice.setRetryPolicy({ maxAttempts: 1 });
+    await expect(Alice.count(url)).rejects.toEqual(new GlowNetworkError(401));
+    // the session was cleared by 401, so the next command reconnects
+    expect(await Alice.count(url)).toBe(0);
+  });
+
+  it('should respond with 404 to unknown endpoints', async () => {
+    const response = await fetch(`${url}/unknown`, { method: 'POST', body: '' });
+    expect(response.status).toBe(404);
+  });
+
+  it('should drop all data on reset', async () => {
+    await Alice.upload(url, 'Bob', 'hello');
+    mockRelay.reset();
+    Bob.clearSession(url);
+    expect(await Bob.count(url)).toBe(0);
+  });
+});
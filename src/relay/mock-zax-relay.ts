@@ -0,0 +1,442 @@
+import { NaCl } from '../nacl/nacl';
+import { NaClDriver, EncryptedMessage } from '../nacl/nacl-driver.interface';
+import { EncryptionHelper } from '../nacl/encryption.helper';
+import { config } from '../config';
+import { Base64, Utils } from '../utils/utils';
+import { Keys } from '../keys/keys';
+import { RelayRequest, RelayTransport } from './relay-transport.interface';
+import { GlowNetworkError } from './network-error';
+import { GlowAbortError } from './abort-error';
+import { arrayZeroBits } from './proof-of-work';
+import { RelayCommand, ZaxMessageKind, ZaxRawMessage, MessageStatusResponse } from '../zax.interface';
+
+export interface MockZaxRelayOptions {
+  // Number of zero bits the session handshake has to contain, as requested in `start_session`
+  difficulty?: number;
+  // Max chunk size reported to uploaders in `startFileUpload`
+  maxChunkSize?: number;
+  // Time to live of stored messages in seconds, reported by `messageStatus`
+  messageTTL?: number;
+}
+
+interface PendingHandshake {
+  clientToken: Uint8Array;
+  relayToken: Uint8Array;
+  sessionKeys?: Keys;
+}
+
+interface MockSession {
+  clientSessionPk: Uint8Array;
+  relaySessionSk: Uint8Array;
+}
+
+interface MockFile {
+  to: Base64;
+  fileSize: number;
+  chunks: Map<number, { nonce: Base64, ctext: Base64 }>;
+  complete: boolean;
+}
+
+/**
+ * Handler of a custom command, which returns data to be encrypted with the session keys,
+ * or raw response lines for unencrypted commands
+ */
+export type MockCommandHandler = (params: { [key: string]: unknown }, hpk: Base64) => unknown;
+
+interface StoredMessage extends ZaxRawMessage {
+  expires: number;
+}
+
+/**
+ * Request rejected by the mock relay, converted into an HTTP error status
+ */
+class MockRelayError extends Error {
+  constructor(public status: number, message: string) {
+    super(`[MockZaxRelay] ${message}`);
+  }
+}
+
+/**
+ * In-process implementation of a Zax relay for offline testing. Runs the complete
+ * session handshake (including proof of work difficulty), mailbox ownership proof,
+ * and all message and file commands with real NaCl crypto. Once installed, it serves
+ * every `fetch` request sent to its URL, so that `Relay` and `Mailbox` work with it unmodified.
+ * Alternatively, it can be used as a `RelayTransport`
+ */
+export class MockZaxRelay implements RelayTransport {
+  private difficulty: number;
+  private maxChunkSize: number;
+  private messageTTL: number;
+
+  private handshakes = new Map<Base64, PendingHandshake>();
+  private sessions = new Map<Base64, MockSession>();
+  private mailboxes = new Map<Base64, StoredMessage[]>();
+  private storageTokens = new Map<Base64, { hpk: Base64, nonce: Base64 }>();
+  private files = new Map<string, MockFile>();
+  private customCommands = new Map<string, { handler: MockCommandHandler, encrypted: boolean }>();
+  private previousFetch?: typeof fetch;
+
+  constructor(public url: string, options: MockZaxRelayOptions = {}) {
+    this.difficulty = options.difficulty ?? 0;
+    this.maxChunkSize = options.maxChunkSize ?? 1024 * 1024;
+    this.messageTTL = options.messageTTL ?? 30 * 60;
+  }
+
+  /**
+   * Adds support of a custom command, as implemented by a customized Zax server
+   */
+  addCommand(name: string, handler: MockCommandHandler, encrypted = true) {
+    this.customCommands.set(name, { handler, encrypted });
+  }
+
+  // ---------- Plugging into fetch ----------
+
+  /**
+   * Replaces global `fetch` with a function that routes requests for this relay URL to the mock,
+   * and passes all other requests to the previously installed `fetch`
+   */
+  install() {
+    const previousFetch = globalThis.fetch;
+    this.previousFetch = previousFetch;
+    globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+      const requestURL = input instanceof Request ? input.url : input.toString();
+      if (requestURL.startsWith(`${this.url}/`)) {
+        return this.fetch(requestURL, init);
+      }
+      return previousFetch(input, init);
+    };
+  }
+
+  /**
+   * Restores `fetch` that was in place before `install` was called
+   */
+  uninstall() {
+    if (this.previousFetch) {
+      globalThis.fetch = this.previousFetch;
+      delete this.previousFetch;
+    }
+  }
+
+  /**
+   * `fetch`-compatible handler of relay requests
+   */
+  async fetch(requestURL: string, init?: RequestInit): Promise<Response> {
+    if (init?.signal?.aborted) {
+      throw new DOMException('The operation was aborted', 'AbortError');
+    }
+    try {
+      const body = await this.respond(requestURL, typeof init?.body === 'string' ? init.body : '');
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+    } catch (err) {
+      if (err instanceof MockRelayError) {
+        return new Response(err.message, { status: err.status });
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * `RelayTransport` implementation, so that the mock can be passed directly to `Relay`
+   * or `RelayFactory` without replacing global `fetch`
+   */
+  async send({ url, body, signal }: RelayRequest): Promise<string> {
+    GlowAbortError.throwIfAborted(signal);
+    if (!url.startsWith(`${this.url}/`)) {
+      // the mock is not reachable by any other URL
+      throw new GlowNetworkError(0);
+    }
+    try {
+      return await this.respond(url, body);
+    } catch (err) {
+      if (err instanceof MockRelayError) {
+        throw new GlowNetworkError(err.status);
+      }
+      throw err;
+    }
+  }
+
+  // ---------- Test helpers ----------
+
+  /**
+   * Drops all established sessions, so that the next command of every client gets 401 Unauthorized
+   */
+  expireSessions() {
+    this.handshakes.clear();
+    this.sessions.clear();
+  }
+
+  /**
+   * Removes all sessions, messages and files from the relay
+   */
+  reset() {
+    this.expireSessions();
+    this.mailboxes.clear();
+    this.storageTokens.clear();
+    this.files.clear();
+  }
+
+  // ---------- Session handshake ----------
+
+  private async respond(requestURL: string, body: string): Promise<string> {
+    const endpoint = requestURL.slice(this.url.length + 1);
+    const lines = body.split('\r\n');
+    switch (endpoint) {
+      case 'start_session':
+        return await this.startSession(lines);
+      case 'verify_session':
+        return await this.verifySession(lines);
+      case 'prove':
+        return await this.prove(lines);
+      case 'command':
+        return await this.command(lines);
+      default:
+        throw new MockRelayError(404, `Unknown endpoint ${endpoint}`);
+    }
+  }
+
+  private async startSession([clientToken]: string[]): Promise<string> {
+    const clientTokenBytes = this.decodeLine(clientToken, config.RELAY_TOKEN_LEN);
+    const relayToken = await this.nacl.random_bytes(config.RELAY_TOKEN_LEN);
+    const h2ClientToken = Utils.toBase64(await this.nacl.h2(clientTokenBytes));
+    this.handshakes.set(h2ClientToken, { clientToken: clientTokenBytes, relayToken });
+    return [Utils.toBase64(relayToken), this.difficulty].join('\r\n');
+  }
+
+  private async verifySession([h2ClientToken, sessionHandshake]: string[]): Promise<string> {
+    const handshake = this.getHandshake(h2ClientToken);
+    const tokens = new Uint8Array([...handshake.clientToken, ...handshake.relayToken]);
+    const proof = this.decodeLine(sessionHandshake, 32);
+
+    if (this.difficulty === 0) {
+      const expected = await this.nacl.h2(tokens);
+      if (Utils.toBase64(expected) !== Utils.toBase64(proof)) {
+        throw new MockRelayError(401, 'Session handshake mismatch');
+      }
+    } else {
+      const hash = await this.nacl.h2(new Uint8Array([...tokens, ...proof]));
+      if (!arrayZeroBits(hash, this.difficulty)) {
+        throw new MockRelayError(401, 'Session handshake does not meet the difficulty');
+      }
+    }
+
+    handshake.sessionKeys = new Keys(await this.nacl.crypto_box_keypair());
+    return handshake.sessionKeys.publicKey;
+  }
+
+  private async prove([h2ClientToken, clientSessionPk, nonce, ctext]: string[]): Promise<string> {
+    const handshake = this.getHandshake(h2ClientToken);
+    if (!handshake.sessionKeys) {
+      throw new MockRelayError(401, 'Session is not verified');
+    }
+    const clientSessionPkBytes = this.decodeLine(clientSessionPk, 32);
+    const relaySessionSk = Utils.fromBase64(handshake.sessionKeys.privateKey);
+
+    const proofData = await this.decryptJSON<{ pub_key: Base64, nonce: Base64, ctext: Base64 }>(
+      nonce, ctext, clientSessionPkBytes, relaySessionSk);
+    const commPk = this.decodeLine(proofData.pub_key, 32);
+    const signature = await this.nacl.crypto_box_open(
+      this.decodeLine(proofData.ctext), this.decodeLine(proofData.nonce), commPk, relaySessionSk);
+    const expectedSignature = await this.nacl.h2(
+      new Uint8Array([...clientSessionPkBytes, ...handshake.relayToken, ...handshake.clientToken]));
+    if (!signature || Utils.toBase64(signature) !== Utils.toBase64(expectedSignature)) {
+      throw new MockRelayError(401, 'Mailbox ownership proof failed');
+    }
+
+    const hpk = Utils.toBase64(await this.nacl.h2(commPk));
+    this.handshakes.delete(h2ClientToken);
+    this.sessions.set(hpk, { clientSessionPk: clientSessionPkBytes, relaySessionSk });
+    return this.getMailbox(hpk).length.toString();
+  }
+
+  // ---------- Commands ----------
+
+  private async command([hpk, nonce, ctext, fileCtext]: string[]): Promise<string> {
+    const session = this.sessions.get(hpk);
+    if (!session) {
+      throw new MockRelayError(401, 'No session for this mailbox');
+    }
+    const params = await this.decryptJSON<{ cmd: RelayCommand, [key: string]: unknown }>(
+      nonce, ctext, session.clientSessionPk, session.relaySessionSk);
+    const encrypted = (data: unknown) => this.encryptJSON(data, session);
+
+    switch (params.cmd) {
+      case RelayCommand.count:
+        return await encrypted(this.getMailbox(hpk).length);
+      case RelayCommand.upload:
+        return await this.upload(hpk, params.to as Base64, params.payload as EncryptedMessage | string);
+      case RelayCommand.download:
+        return await encrypted(this.getMailbox(hpk).map(({ data, time, from, nonce, kind }) =>
+          ({ data, time, from, nonce, kind })));
+      case RelayCommand.messageStatus:
+        return this.messageStatus(params.token as Base64).toString();
+      case RelayCommand.delete:
+        return this.deleteMessages(hpk, params.payload as Base64[]).toString();
+      case RelayCommand.startFileUpload:
+        return await encrypted(await this.startFileUpload(hpk, params.to as Base64,
+          params.file_size as number, params.metadata as EncryptedMessage));
+      case RelayCommand.uploadFileChunk:
+        return await encrypted(this.uploadFileChunk(params.uploadID as string, params.part as number,
+          params.last_chunk as boolean, params.nonce as Base64, fileCtext));
+      case RelayCommand.downloadFileChunk: {
+        const chunk = this.getFile(params.uploadID as string).chunks.get(params.part as number);
+        if (!chunk) {
+          throw new MockRelayError(400, `Chunk ${params.part} is not found`);
+        }
+        return [await encrypted({ nonce: chunk.nonce }), chunk.ctext].join('\r\n');
+      }
+      case RelayCommand.fileStatus:
+        return await encrypted(this.fileStatus(params.uploadID as string));
+      case RelayCommand.deleteFile:
+        return await encrypted({ status: this.files.delete(params.uploadID as string) ? 'OK' : 'NOT_FOUND' });
+      default:
+        return await this.customCommand(hpk, params, session);
+    }
+  }
+
+  private async customCommand(hpk: Base64, params: { cmd: string, [key: string]: unknown }, session: MockSession) {
+    const command = this.customCommands.get(params.cmd);
+    if (!command) {
+      throw new MockRelayError(400, `Unknown command ${params.cmd}`);
+    }
+    const result = await command.handler(params, hpk);
+    return command.encrypted ? await this.encryptJSON(result, session) : (result as string[]).join('\r\n');
+  }
+
+  private async upload(from: Base64, to: Base64, payload: EncryptedMessage | string): Promise<string> {
+    if (!to || payload === undefined) {
+      throw new MockRelayError(400, 'upload requires `to` and `payload`');
+    }
+    const isEncrypted = typeof payload === 'object';
+    const nonce = isEncrypted ? payload.nonce : Utils.toBase64(await this.nacl.crypto_box_random_nonce());
+    const data = isEncrypted ? payload.ctext : payload;
+    this.store(to, { data, from, nonce, kind: ZaxMessageKind.message });
+
+    const storageToken = Utils.toBase64(await this.nacl.random_bytes(config.RELAY_TOKEN_LEN));
+    this.storageTokens.set(storageToken, { hpk: to, nonce });
+    return storageToken;
+  }
+
+  private messageStatus(storageToken: Base64): number {
+    const stored = this.storageTokens.get(storageToken);
+    const message = stored && this.getMailbox(stored.hpk).find(m => m.nonce === stored.nonce);
+    if (!message) {
+      return MessageStatusResponse.MissingKey;
+    }
+    return Math.max(0, Math.round(message.expires - Date.now() / 1000));
+  }
+
+  private deleteMessages(hpk: Base64, nonces: Base64[]): number {
+    const remaining = this.getMailbox(hpk).filter(message => !nonces.includes(message.nonce));
+    this.mailboxes.set(hpk, remaining);
+    return remaining.length;
+  }
+
+  private async startFileUpload(from: Base64, to: Base64, fileSize: number, metadata: EncryptedMessage) {
+    if (!to || !metadata) {
+      throw new MockRelayError(400, 'startFileUpload requires `to` and `metadata`');
+    }
+    const uploadID = await this.nacl.to_hex(await this.nacl.random_bytes(16));
+    this.files.set(uploadID, { to, fileSize, chunks: new Map(), complete: false });
+    this.store(to, {
+      data: JSON.stringify({ uploadID, nonce: metadata.nonce, ctext: metadata.ctext }),
+      from,
+      nonce: Utils.toBase64(await this.nacl.crypto_box_random_nonce()),
+      kind: ZaxMessageKind.file
+    });
+
+    const storageToken = Utils.toBase64(await this.nacl.random_bytes(config.RELAY_TOKEN_LEN));
+    return { uploadID, max_chunk_size: this.maxChunkSize, storage_token: storageToken };
+  }
+
+  private uploadFileChunk(uploadID: string, part: number, lastChunk: boolean, nonce: Base64, ctext?: string) {
+    const file = this.files.get(uploadID);
+    if (!file) {
+      return { status: 'NOT_FOUND' };
+    }
+    if (!ctext || !nonce) {
+      throw new MockRelayError(400, 'uploadFileChunk requires a chunk nonce and ctext');
+    }
+    if (ctext.length > this.maxChunkSize * 2) {
+      throw new MockRelayError(413, 'File chunk is too large');
+    }
+    file.chunks.set(part, { nonce, ctext });
+    if (lastChunk) {
+      file.complete = true;
+    }
+    return { status: 'OK' };
+  }
+
+  private fileStatus(uploadID: string) {
+    const file = this.files.get(uploadID);
+    if (!file) {
+      return { status: 'NOT_FOUND', total_chunks: 0, file_size: 0, bytes_stored: 0 };
+    }
+    let bytesStored = 0;
+    file.chunks.forEach(chunk => bytesStored += chunk.ctext.length);
+    return {
+      status: file.complete ? 'COMPLETE' : (file.chunks.size ? 'UPLOADING' : 'START'),
+      total_chunks: file.chunks.size,
+      file_size: file.fileSize,
+      bytes_stored: bytesStored
+    };
+  }
+
+  // ---------- Helpers ----------
+
+  private get nacl(): NaClDriver {
+    return NaCl.getInstance();
+  }
+
+  private getHandshake(h2ClientToken: Base64): PendingHandshake {
+    const handshake = this.handshakes.get(h2ClientToken);
+    if (!handshake) {
+      throw new MockRelayError(401, 'Unknown session handshake');
+    }
+    return handshake;
+  }
+
+  private getMailbox(hpk: Base64): StoredMessage[] {
+    const now = Date.now() / 1000;
+    const messages = (this.mailboxes.get(hpk) || []).filter(message => message.expires > now);
+    this.mailboxes.set(hpk, messages);
+    return messages;
+  }
+
+  private getFile(uploadID: string): MockFile {
+    const file = this.files.get(uploadID);
+    if (!file) {
+      throw new MockRelayError(400, `Upload ${uploadID} is not found`);
+    }
+    return file;
+  }
+
+  private store(hpk: Base64, message: Omit<StoredMessage, 'time' | 'expires'>) {
+    const time = Date.now() / 1000;
+    this.getMailbox(hpk).push({ ...message, time, expires: time + this.messageTTL });
+  }
+
+  private decodeLine(line: string | undefined, length?: number): Uint8Array {
+    if (!line) {
+      throw new MockRelayError(400, 'Missing request line');
+    }
+    const bytes = Utils.fromBase64(line);
+    if (length !== undefined && bytes.length !== length) {
+      throw new MockRelayError(400, `Expected ${length} bytes, got ${bytes.length}`);
+    }
+    return bytes;
+  }
+
+  private async decryptJSON<T>(nonce: Base64, ctext: Base64, pk: Uint8Array, sk: Uint8Array): Promise<T> {
+    const decoded = await EncryptionHelper.decodeMessage(this.decodeLine(nonce), this.decodeLine(ctext), pk, sk);
+    if (decoded === null) {
+      throw new MockRelayError(400, 'Failed to decrypt request');
+    }
+    return JSON.parse(decoded);
+  }
+
+  private async encryptJSON(data: unknown, session: MockSession): Promise<string> {
+    const { nonce, ctext } = await EncryptionHelper.encodeMessage(
+      await this.nacl.encode_utf8(JSON.stringify(data)), session.clientSessionPk, session.relaySessionSk);
+    return [nonce, ctext].join('\r\n');
+  }
+}
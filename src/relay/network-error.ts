@@ -1,7 +1,11 @@
-export class GlowNetworkError extends Error {
+import { GlowError, GlowErrorContext } from '../errors';
+
+export class GlowNetworkError extends GlowError {
   readonly name = 'GlowNetworkError';
+  // Number of attempts made by Mailbox before giving up on a command
+  attempts?: number;
 
-  constructor(public status: number|undefined) {
-    super(`GlowNetworkError status: ${status}`);
+  constructor(public status: number|undefined, context?: GlowErrorContext) {
+    super('NETWORK_ERROR', `GlowNetworkError status: ${status}`, context);
   }
-}
\ No newline at end of file
+}
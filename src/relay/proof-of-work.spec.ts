@@ -0,0 +1,61 @@
+import { NaCl } from '../nacl/nacl';
+import { arrayZeroBits, ProofOfWork, ProofOfWorkProgress } from './proof-of-work';
+import { GlowAbortError } from './abort-error';
+
+describe('ProofOfWork', () => {
+  let nacl: ReturnType<typeof NaCl.getInstance>;
+  let handshake: Uint8Array;
+
+  beforeAll(async () => {
+    NaCl.setDefaultInstance();
+    nacl = NaCl.getInstance();
+    handshake = await nacl.random_bytes(64);
+  });
+
+  async function isValid(nonce: Uint8Array, difficulty: number) {
+    return arrayZeroBits(await nacl.h2(new Uint8Array([...handshake, ...nonce])), difficulty);
+  }
+
+  it('should check rightmost zero bits', () => {
+    expect(arrayZeroBits(new Uint8Array([0, 0, 0b10]), 17)).toBe(true);
+    expect(arrayZeroBits(new Uint8Array([0, 0, 0b1]), 17)).toBe(false);
+    expect(arrayZeroBits(new Uint8Array([0, 1, 0]), 16)).toBe(false);
+    expect(arrayZeroBits(new Uint8Array([0b11110000]), 4)).toBe(true);
+    expect(arrayZeroBits(new Uint8Array([1]), 0)).toBe(true);
+  });
+
+  it('should find a nonce on the main thread and report progress', async () => {
+    const progress: ProofOfWorkProgress[] = [];
+    const nonce = await ProofOfWork.solveInLoop(handshake, 10, { onProgress: p => progress.push(p) });
+    expect(nonce).toHaveLength(32);
+    expect(await isValid(nonce, 10)).toBe(true);
+    progress.forEach(p => expect(p.expectedAttempts).toBe(1024));
+  });
+
+  it('should find a nonce in a worker', async () => {
+    const nonce = await ProofOfWork.solveInWorker(handshake, 8);
+    expect(nonce).not.toBeNull();
+    expect(await isValid(nonce as Uint8Array, 8)).toBe(true);
+  });
+
+  it('should cancel the search on the main thread', async () => {
+    const controller = new AbortController();
+    const search = ProofOfWork.solveInLoop(handshake, 64, {
+      signal: controller.signal,
+      onProgress: () => controller.abort()
+    });
+    await expect(search).rejects.toBeInstanceOf(GlowAbortError);
+  });
+
+  it('should cancel the search in a worker', async () => {
+    const controller = new AbortController();
+    const search = ProofOfWork.solveInWorker(handshake, 64, {
+      signal: controller.signal,
+      onProgress: progress => {
+        expect(progress.attempts).toBeGreaterThan(0);
+        controller.abort();
+      }
+    });
+    await expect(search).rejects.toBeInstanceOf(GlowAbortError);
+  });
+});
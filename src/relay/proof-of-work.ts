@@ -0,0 +1,257 @@
+import { NaCl } from '../nacl/nacl';
+import { config } from '../config';
+import { Utils } from '../utils/utils';
+import { GlowAbortError } from './abort-error';
+
+export interface ProofOfWorkProgress {
+  // Number of nonces tried so far
+  attempts: number;
+  // On average, 2^difficulty nonces have to be tried
+  expectedAttempts: number;
+  // Time spent so far, in milliseconds
+  elapsed: number;
+  // Expected time left at the current hash rate, in milliseconds. Since every attempt is
+  // independent, it does not decrease as the search goes on
+  estimatedTimeLeft: number;
+}
+
+export interface ProofOfWorkOptions {
+  onProgress?: (progress: ProofOfWorkProgress) => void;
+  // Stops the search and rejects with `GlowAbortError`
+  signal?: AbortSignal;
+}
+
+// Number of attempts between progress reports and cancellation checks
+const progressInterval = 1000;
+
+/**
+ * Self-contained worker script, which can't import library modules. Runs both as a Web Worker
+ * and as a Node.js `worker_threads` eval script, and computes h₂ with Web Crypto API.
+ * `zeroBits` mirrors `arrayZeroBits` below
+ */
+const workerSource = `
+const isBrowser = typeof importScripts === 'function';
+const port = isBrowser ? self : require('worker_threads').parentPort;
+const webCrypto = globalThis.crypto || require('crypto').webcrypto;
+
+async function h2(data) {
+  const padded = new Uint8Array(64 + data.length);
+  padded.set(data, 64);
+  const hash = await webCrypto.subtle.digest('SHA-256', padded);
+  return new Uint8Array(await webCrypto.subtle.digest('SHA-256', hash));
+}
+
+function zeroBits(array, difficulty) {
+  let n = difficulty;
+  for (let i = 0; i <= 1 + difficulty / 8; i++) {
+    const byte = array[i];
+    if (n <= 0) {
+      return true;
+    }
+    if (n > 8) {
+      n -= 8;
+      if (byte > 0) {
+        return false;
+      }
+    } else {
+      return byte === ((byte >> n) << n);
+    }
+  }
+  return false;
+}
+
+async function solve({ handshake, difficulty, progressInterval }) {
+  const input = new Uint8Array(handshake.length + 32);
+  input.set(handshake);
+  const nonce = input.subarray(handshake.length);
+  for (let attempts = 1; ; attempts++) {
+    webCrypto.getRandomValues(nonce);
+    if (zeroBits(await h2(input), difficulty)) {
+      port.postMessage({ attempts, nonce: nonce.slice() });
+      return;
+    }
+    if (attempts % progressInterval === 0) {
+      port.postMessage({ attempts });
+    }
+  }
+}
+
+if (isBrowser) {
+  port.onmessage = event => solve(event.data);
+} else {
+  port.on('message', solve);
+}
+`;
+
+interface WorkerMessage {
+  attempts: number;
+  nonce?: Uint8Array;
+}
+
+/**
+ * Minimal common interface of Web Worker and Node.js worker, as used by `ProofOfWork`
+ */
+interface ProofOfWorkWorker {
+  post(data: unknown): void;
+  terminate(): void;
+}
+
+/**
+ * Proof of work requested by a relay during the session handshake: a random nonce, such
+ * that h₂(handshake, nonce) has `difficulty` rightmost zero bits. The search runs
+ * in a Web Worker in browsers, or in a `worker_threads` worker in Node.js, and falls back
+ * to the main thread when workers are not available
+ */
+export class ProofOfWork {
+
+  private constructor() { }
+
+  static async solve(handshake: Uint8Array, difficulty: number, options: ProofOfWorkOptions = {}) {
+    if (difficulty >= config.POW_WORKER_MIN_DIFFICULTY) {
+      const nonce = await this.solveInWorker(handshake, difficulty, options);
+      if (nonce) {
+        return nonce;
+      }
+    }
+    return await this.solveInLoop(handshake, difficulty, options);
+  }
+
+  /**
+   * Continuously calculates the nonce on the current thread, yielding to the event loop
+   * between batches of attempts so that progress and cancellation are handled
+   */
+  static async solveInLoop(handshake: Uint8Array, difficulty: number,
+    { onProgress, signal }: ProofOfWorkOptions = {}): Promise<Uint8Array> {
+    const nacl = NaCl.getInstance();
+    const started = Date.now();
+    for (let attempts = 1; ; attempts++) {
+      const nonce = await nacl.random_bytes(32);
+      const h2 = await nacl.h2(new Uint8Array([...handshake, ...nonce]));
+      if (arrayZeroBits(h2, difficulty)) {
+        return nonce;
+      }
+      if (attempts % progressInterval === 0) {
+        GlowAbortError.throwIfAborted(signal);
+        onProgress?.(this.progress(attempts, difficulty, started));
+        await Utils.delay(0);
+        GlowAbortError.throwIfAborted(signal);
+      }
+    }
+  }
+
+  /**
+   * Runs the search in a worker. Returns `null` if workers are not supported in this environment
+   */
+  static async solveInWorker(handshake: Uint8Array, difficulty: number,
+    { onProgress, signal }: ProofOfWorkOptions = {}): Promise<Uint8Array | null> {
+    GlowAbortError.throwIfAborted(signal);
+    const started = Date.now();
+
+    return new Promise<Uint8Array | null>((resolve, reject) => {
+      let worker: ProofOfWorkWorker | null = null;
+      const finish = () => {
+        worker?.terminate();
+        signal?.removeEventListener('abort', abort);
+      };
+      const abort = () => {
+        finish();
+        reject(new GlowAbortError());
+      };
+      const onMessage = ({ attempts, nonce }: WorkerMessage) => {
+        if (nonce) {
+          finish();
+          resolve(nonce);
+        } else {
+          onProgress?.(this.progress(attempts, difficulty, started));
+        }
+      };
+      const onError = (err: unknown) => {
+        finish();
+        reject(err);
+      };
+
+      this.createWorker(onMessage, onError).then(created => {
+        if (!created) {
+          resolve(null);
+          return;
+        }
+        worker = created;
+        if (signal?.aborted) {
+          abort();
+          return;
+        }
+        signal?.addEventListener('abort', abort);
+        worker.post({ handshake, difficulty, progressInterval });
+      }, () => resolve(null));
+    });
+  }
+
+  private static progress(attempts: number, difficulty: number, started: number): ProofOfWorkProgress {
+    const elapsed = Date.now() - started;
+    const expectedAttempts = 2 ** difficulty;
+    return {
+      attempts,
+      expectedAttempts,
+      elapsed,
+      estimatedTimeLeft: Math.round(expectedAttempts * elapsed / attempts)
+    };
+  }
+
+  private static async createWorker(onMessage: (message: WorkerMessage) => void,
+    onError: (err: unknown) => void): Promise<ProofOfWorkWorker | null> {
+    if (typeof Worker !== 'undefined' && typeof Blob !== 'undefined' && typeof URL.createObjectURL === 'function') {
+      const url = URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' }));
+      const worker = new Worker(url);
+      URL.revokeObjectURL(url);
+      worker.onmessage = event => onMessage(event.data);
+      worker.onerror = event => onError(new Error(`[ProofOfWork] ${event.message}`));
+      return { post: data => worker.postMessage(data), terminate: () => worker.terminate() };
+    }
+    if (typeof process !== 'undefined' && process.versions?.node) {
+      // module name is kept in a variable to stop bundlers from resolving it for browser builds
+      const moduleName = 'worker_threads';
+      const { Worker: NodeWorker } = await import(/* @vite-ignore */ moduleName) as typeof import('worker_threads');
+      const worker = new NodeWorker(workerSource, { eval: true });
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      return { post: data => worker.postMessage(data), terminate: () => worker.terminate() };
+    }
+    return null;
+  }
+}
+
+/**
+ * Returns `true` if the rightmost n bits of a byte are 0.
+ * Check whether the rightmost difficulty bits of an Uint8Array are 0, where
+ * the lowest indexes of the array represent those rightmost bits. Thus if
+ * the difficulty is 17, then array[0] and array[1] should be 0, as should the
+ * rightmost bit of array[2]. This is used for our difficulty settings in Zax to
+ * reduce burden on a busy server by ensuring clients have to do some
+ * additional work during the session handshake
+ */
+export function arrayZeroBits(array: Uint8Array, difficulty: number): boolean {
+  let byte;
+  let n = difficulty;
+  for (let i = 0; i <= (1 + difficulty / 8); i++) {
+    byte = array[i];
+    if (n <= 0) {
+      return true;
+    }
+    if (n > 8) {
+      n -= 8;
+      if (byte > 0) {
+        return false;
+      }
+    } else {
+      return firstZeroBits(byte, n);
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns `true` if the rightmost n bits of a byte are 0
+ */
+function firstZeroBits(byte: number, n: number): boolean {
+  return byte === ((byte >> n) << n);
+}
@@ -0,0 +1,29 @@
+import { RelayCommand } from '../zax.interface';
+import { GlowProtocolError } from '../errors';
+import { RelayCommands } from './relay-commands';
+
+describe('RelayCommands', () => {
+  afterEach(() => {
+    RelayCommands.unregister('echo');
+  });
+
+  it('should declare standard commands', () => {
+    expect(RelayCommands.get(RelayCommand.upload)).toMatchObject({ responseLines: 1, idempotent: false });
+    expect(RelayCommands.get(RelayCommand.downloadFileChunk)).toMatchObject({ responseLines: 3, encrypted: true });
+    expect(RelayCommands.get('echo')).toBeUndefined();
+  });
+
+  it('should register custom commands', () => {
+    RelayCommands.register({ name: 'echo', responseLines: 2, encrypted: true });
+    expect(RelayCommands.get('echo')).toEqual({ name: 'echo', responseLines: 2, encrypted: true });
+    expect(() => RelayCommands.register({ name: 'echo', responseLines: 1, encrypted: false }))
+      .toThrow(GlowProtocolError);
+  });
+
+  it('should keep standard commands', () => {
+    expect(() => RelayCommands.register({ name: RelayCommand.count, responseLines: 1, encrypted: false }))
+      .toThrow(GlowProtocolError);
+    expect(() => RelayCommands.unregister(RelayCommand.count))
+      .toThrow(expect.objectContaining({ code: 'INVALID_CONFIGURATION' }));
+  });
+});
@@ -0,0 +1,78 @@
+import { RelayCommand } from '../zax.interface';
+import { GlowProtocolError } from '../errors';
+import {
+  isCountResponse, isDownloadResponse, isUploadResponse, isIntegerResponse, isStartFileUploadResponse,
+  isUploadFileChunkResponse, isDownloadFileChunkResponse, isFileStatusResponse, isDeleteFileResponse
+} from '../zax.validators';
+
+/**
+ * Declaration of a relay command, which allows to use commands of customized Zax servers
+ */
+export interface RelayCommandDefinition<T = unknown> {
+  name: string;
+  // Expected number of lines in the relay response
+  responseLines: number;
+  // Response starts with nonce and ctext encrypted with the session keys. Otherwise it's returned as raw lines
+  encrypted: boolean;
+  // Command may be replayed on errors that occur after a relay has already processed it. Defaults to `true`
+  idempotent?: boolean;
+  // Checks the shape of a decrypted JSON response, or raw lines of an unencrypted one
+  validate?: (response: unknown) => boolean;
+  // Converts a validated response to the command result
+  decode?: (response: unknown) => T;
+}
+
+const builtInCommands: RelayCommandDefinition[] = [
+  { name: RelayCommand.count, responseLines: 2, encrypted: true, validate: isCountResponse },
+  { name: RelayCommand.upload, responseLines: 1, encrypted: false, idempotent: false, validate: isUploadResponse },
+  { name: RelayCommand.download, responseLines: 2, encrypted: true, validate: isDownloadResponse },
+  { name: RelayCommand.messageStatus, responseLines: 1, encrypted: false, validate: isIntegerResponse },
+  { name: RelayCommand.delete, responseLines: 1, encrypted: false, validate: isIntegerResponse },
+  {
+    name: RelayCommand.startFileUpload,
+    responseLines: 2,
+    encrypted: true,
+    idempotent: false,
+    validate: isStartFileUploadResponse
+  },
+  {
+    name: RelayCommand.uploadFileChunk,
+    responseLines: 2,
+    encrypted: true,
+    idempotent: false,
+    validate: isUploadFileChunkResponse
+  },
+  // the third line is a file chunk encrypted symmetrically
+  { name: RelayCommand.downloadFileChunk, responseLines: 3, encrypted: true, validate: isDownloadFileChunkResponse },
+  { name: RelayCommand.fileStatus, responseLines: 2, encrypted: true, validate: isFileStatusResponse },
+  { name: RelayCommand.deleteFile, responseLines: 2, encrypted: true, validate: isDeleteFileResponse }
+];
+
+/**
+ * Registry of commands supported by relays: standard Zax commands, and custom ones added with `register`
+ */
+export class RelayCommands {
+  private static commands = new Map(builtInCommands.map(command => [command.name, command]));
+
+  private constructor() { }
+
+  public static register<T>(definition: RelayCommandDefinition<T>) {
+    if (this.commands.has(definition.name)) {
+      throw new GlowProtocolError('INVALID_CONFIGURATION',
+        `[RelayCommands] Command ${definition.name} is already registered`, { command: definition.name });
+    }
+    this.commands.set(definition.name, definition);
+  }
+
+  public static unregister(name: string) {
+    if (Object.values<string>(RelayCommand).includes(name)) {
+      throw new GlowProtocolError('INVALID_CONFIGURATION', `[RelayCommands] Standard command ${name} can't be removed`,
+        { command: name });
+    }
+    this.commands.delete(name);
+  }
+
+  public static get(name: string): RelayCommandDefinition | undefined {
+    return this.commands.get(name);
+  }
+}
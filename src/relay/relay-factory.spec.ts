@@ -1,6 +1,10 @@
 import { NaCl } from '../nacl/nacl';
 import { testRelayURL, testRelayURL2 } from '../tests.helper';
 import { RelayFactory } from './relay-factory';
+import { MockZaxRelay } from './mock-zax-relay';
+import { RelayRequest } from './relay-transport.interface';
+import { GlowNetworkError } from './network-error';
+import { Utils } from '../utils/utils';
 
 describe('RelayFactory', () => {
 
@@ -21,4 +25,52 @@ describe('RelayFactory', () => {
     const relay2 = factory.getInstance(testRelayURL2);
     expect(relay1).not.toBe(relay2);
   });
-});
\ No newline at end of file
+
+  it('should pass its transport to all relays', async () => {
+    const transport = new MockZaxRelay(testRelayURL);
+    const factory = new RelayFactory(transport);
+    const relay1 = factory.getInstance(testRelayURL);
+    expect(relay1.transport).toBe(transport);
+
+    const anotherTransport = new MockZaxRelay(testRelayURL2);
+    factory.setTransport(anotherTransport);
+    expect(relay1.transport).toBe(anotherTransport);
+    expect(factory.getInstance(testRelayURL2).transport).toBe(anotherTransport);
+  });
+
+  it('should apply options to new and existing relays', async () => {
+    const requests: RelayRequest[] = [];
+    const factory = new RelayFactory({
+      send: async (request: RelayRequest) => {
+        requests.push(request);
+        throw new GlowNetworkError(0);
+      }
+    });
+    const relay = factory.getInstance(testRelayURL, { requestTimeout: 100 });
+    await relay.probe();
+    expect(factory.getInstance(testRelayURL, { requestTimeout: 200 })).toBe(relay);
+    await relay.probe(0);
+    expect(requests.map(request => request.timeout)).toEqual([100, 200]);
+  });
+
+  it('should rank relays by availability and latency', async () => {
+    const fast = new MockZaxRelay('https://fast.zax');
+    const slow = new MockZaxRelay('https://slow.zax');
+    const factory = new RelayFactory({
+      send: async (request: RelayRequest) => {
+        if (request.url.startsWith(fast.url)) {
+          return await fast.send(request);
+        }
+        if (request.url.startsWith(slow.url)) {
+          await Utils.delay(50);
+          return await slow.send(request);
+        }
+        throw new GlowNetworkError(0);
+      }
+    });
+
+    const ranked = await factory.rank(['https://down.zax', slow.url, fast.url]);
+    expect(ranked.map(result => result.url)).toEqual([fast.url, slow.url, 'https://down.zax']);
+    expect(ranked[2].error).toBe('offline');
+  });
+});
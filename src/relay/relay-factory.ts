@@ -1,18 +1,76 @@
-import { Relay } from './relay';
+import { Relay, RelayOptions, RelayProbeResult } from './relay';
+import { RelayTransport } from './relay-transport.interface';
+import { FetchTransport } from './fetch-transport';
+import { RelayMiddleware } from './relay-middleware';
+import { Logger } from '../logger/logger.interface';
 
 export class RelayFactory {
 
   private relays: { [url: string]: Relay } = {};
+  private middleware: RelayMiddleware[] = [];
+  private logger: Logger | null = null;
+
+  constructor(private transport: RelayTransport = new FetchTransport()) {}
 
   /**
    * Relay factory, that returns a Relay instance for a given URL,
    * or creates a new one if it hasn't yet been initialized.
+   * `options` are applied to the relay instance whether it's new or existing
    */
-  getInstance(url: string) {
+  getInstance(url: string, options?: RelayOptions) {
     let relay = this.relays[url];
     if (!relay) {
-      relay = this.relays[url] = new Relay(url);
+      relay = this.relays[url] = new Relay(url, this.transport, options);
+      this.middleware.forEach(middleware => relay.use(middleware));
+      relay.setLogger(this.logger);
+    } else if (options) {
+      relay.setOptions(options);
     }
     return relay;
   }
-}
\ No newline at end of file
+
+  /**
+   * Switches all relays created by this factory, including existing ones, to another transport
+   */
+  setTransport(transport: RelayTransport) {
+    this.transport = transport;
+    Object.values(this.relays).forEach(relay => relay.transport = transport);
+  }
+
+  /**
+   * Sets a logger for all relays created by this factory, including existing ones.
+   * Pass `null` to fall back to the default logger
+   */
+  setLogger(logger: Logger | null) {
+    this.logger = logger;
+    Object.values(this.relays).forEach(relay => relay.setLogger(logger));
+  }
+
+  /**
+   * Adds request/response hooks to all relays created by this factory, including existing ones.
+   * Returns a function that removes them
+   */
+  use(middleware: RelayMiddleware): () => void {
+    this.middleware.push(middleware);
+    Object.values(this.relays).forEach(relay => relay.use(middleware));
+    return () => {
+      this.middleware = this.middleware.filter(item => item !== middleware);
+      Object.values(this.relays).forEach(relay => relay.removeMiddleware(middleware));
+    };
+  }
+
+  /**
+   * Probes the given relays in parallel, and returns the results ordered from the best relay:
+   * responsive relays sorted by latency and then by requested difficulty, followed by failed ones.
+   * Aborting `signal` cancels the probes with `GlowAbortError`
+   */
+  async rank(urls: string[], maxAge?: number, signal?: AbortSignal): Promise<RelayProbeResult[]> {
+    const results = await Promise.all(urls.map(url => this.getInstance(url).probe(maxAge, signal)));
+    return results.sort((a, b) => {
+      if (a.error || b.error) {
+        return Number(!!a.error) - Number(!!b.error);
+      }
+      return (a.latency ?? 0) - (b.latency ?? 0) || (a.difficulty ?? 0) - (b.difficulty ?? 0);
+    });
+  }
+}
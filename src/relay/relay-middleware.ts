@@ -0,0 +1,51 @@
+/**
+ * A request to a relay as seen by middleware. Sensitive lines are redacted unless
+ * the middleware opts out with `redact: false`
+ */
+export interface RelayRequestInfo {
+  // Base URL of the relay
+  relay: string;
+  // Relay endpoint: start_session, verify_session, prove or command
+  endpoint: string;
+  // Mailbox command, for requests to the `command` endpoint
+  command?: string;
+  // Request lines
+  params: string[];
+  requestBytes: number;
+}
+
+export interface RelayResponseInfo extends RelayRequestInfo {
+  // Response lines
+  response: string[];
+  responseBytes: number;
+  // Request duration in milliseconds
+  duration: number;
+}
+
+export interface RelayErrorInfo extends RelayRequestInfo {
+  error: Error;
+  // HTTP status, if the request failed with `GlowNetworkError`
+  status?: number;
+  duration: number;
+}
+
+/**
+ * Hooks called around every request to a relay, e.g. to log or trace relay traffic.
+ * Hooks are called synchronously and should not throw
+ */
+export interface RelayMiddleware {
+  before?: (request: RelayRequestInfo) => void;
+  after?: (response: RelayResponseInfo) => void;
+  error?: (error: RelayErrorInfo) => void;
+  // Set to `false` to pass tokens, keys, nonces and ciphertexts to hooks as is
+  redact?: boolean;
+}
+
+/**
+ * Relay requests and responses consist of tokens, keys, nonces and ciphertexts, except for
+ * numbers such as difficulty, message count or status. Everything but numbers is replaced
+ * with its length
+ */
+export function redactLines(lines: string[]): string[] {
+  return lines.map(line => /^-?\d+$/.test(line) ? line : `[redacted ${line.length} bytes]`);
+}
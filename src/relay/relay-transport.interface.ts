@@ -0,0 +1,22 @@
+/**
+ * A single POST request to a relay endpoint
+ */
+export interface RelayRequest {
+  // Full endpoint URL, e.g. https://z.vault12.com/start_session
+  url: string;
+  // Request lines joined with CRLF
+  body: string;
+  // Request timeout in milliseconds
+  timeout: number;
+  // Cancels the request. Transports throw `GlowAbortError` when it's aborted
+  signal?: AbortSignal;
+}
+
+/**
+ * Transport layer used by `Relay` to reach a Zax server. Implementations return a raw
+ * text response and throw `GlowNetworkError` with the HTTP status on failure: use status 0
+ * for network connectivity issues, and 408 for timeouts
+ */
+export interface RelayTransport {
+  send(request: RelayRequest): Promise<string>;
+}
@@ -1,8 +1,17 @@
 import { Relay } from './relay';
 import { NaCl } from '../nacl/nacl';
-import { testRelayURL } from '../tests.helper';
+import { testRelayURL, setupMockRelays } from '../tests.helper';
+import { MockZaxRelay } from './mock-zax-relay';
+import { RelayRequest } from './relay-transport.interface';
+import { GlowNetworkError } from './network-error';
+import { GlowAbortError } from './abort-error';
+import { RelayErrorInfo, RelayRequestInfo, RelayResponseInfo } from './relay-middleware';
+import { RelayCommand } from '../zax.interface';
+import { GlowProtocolError, GlowSessionError } from '../errors';
 
 describe('Relay', () => {
+  setupMockRelays();
+
   beforeAll(async () => {
     NaCl.setDefaultInstance();
   });
@@ -14,6 +23,114 @@ describe('Relay', () => {
     expect(connection.relayPublicKey).toHaveLength(32);
   });
 
+  it('should send requests via an injected transport', async () => {
+    const mockRelay = new MockZaxRelay('https://injected.zax');
+    const requests: RelayRequest[] = [];
+    const relay = new Relay(mockRelay.url, {
+      send: (request: RelayRequest) => {
+        requests.push(request);
+        return mockRelay.send(request);
+      }
+    });
+    await relay.openConnection();
+    expect(requests.map(request => request.url)).toEqual([
+      'https://injected.zax/start_session',
+      'https://injected.zax/verify_session'
+    ]);
+  });
+
+  it('should complete a handshake with proof of work', async () => {
+    const mockRelay = new MockZaxRelay('https://difficult.zax', { difficulty: 9 });
+    const relay = new Relay(mockRelay.url, mockRelay);
+    const connection = await relay.openConnection({ onProgress: jest.fn() });
+    expect(connection.relayPublicKey).toHaveLength(32);
+  });
+
+  it('should cancel a handshake with proof of work', async () => {
+    const mockRelay = new MockZaxRelay('https://difficult.zax', { difficulty: 64 });
+    const relay = new Relay(mockRelay.url, mockRelay);
+    const controller = new AbortController();
+    const connection = relay.openConnection({ signal: controller.signal, onProgress: () => controller.abort() });
+    await expect(connection).rejects.toBeInstanceOf(GlowAbortError);
+  });
+
+  it('should probe a relay and cache the result', async () => {
+    const mockRelay = new MockZaxRelay('https://probe.zax', { difficulty: 3 });
+    const send = jest.fn((request: RelayRequest) => mockRelay.send(request));
+    const relay = new Relay(mockRelay.url, { send });
+
+    const result = await relay.probe();
+    expect(result.url).toBe(mockRelay.url);
+    expect(result.difficulty).toBe(3);
+    expect(result.latency).toBeGreaterThanOrEqual(0);
+    expect(result.error).toBeUndefined();
+    expect(await relay.probe()).toBe(result);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    await relay.probe(0);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should classify probe errors', async () => {
+    const relay = new Relay('https://down.zax', { send: jest.fn().mockRejectedValue(new GlowNetworkError(0)) });
+    expect(await relay.probe()).toMatchObject({ error: 'offline', status: 0 });
+
+    relay.transport = { send: jest.fn().mockRejectedValue(new GlowNetworkError(503)) };
+    expect(await relay.probe(0)).toMatchObject({ error: 'server', status: 503 });
+
+    relay.transport = { send: jest.fn().mockResolvedValue('') };
+    expect((await relay.probe(0)).error).toBe('protocol');
+  });
+
+  it('should keep the session and not emit errors when a probe fails', async () => {
+    const relay = new Relay(testRelayURL);
+    await relay.openConnection();
+    const onError = jest.fn();
+    const onUnauthorized = jest.fn();
+    relay.on('error', onError);
+    relay.on('unauthorized', onUnauthorized);
+
+    relay.transport = { send: jest.fn().mockRejectedValue(new GlowNetworkError(401)) };
+    expect(await relay.probe(0)).toMatchObject({ error: 'rejected', status: 401 });
+    relay.transport = { send: jest.fn().mockRejectedValue(new GlowNetworkError(503)) };
+    expect(await relay.probe(0)).toMatchObject({ error: 'server', status: 503 });
+    expect(relay.isConnected).toBe(true);
+    expect(onError).not.toHaveBeenCalled();
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it('should refuse difficulty above the accepted maximum', async () => {
+    const mockRelay = new MockZaxRelay('https://difficult.zax', { difficulty: 12 });
+    const relay = new Relay(mockRelay.url, mockRelay, { maxDifficulty: 10 });
+    await expect(relay.openConnection()).rejects.toThrow('difficulty 12');
+    await expect(relay.openConnection()).rejects.toBeInstanceOf(GlowSessionError);
+  });
+
+  it('should scale file chunk timeouts with the chunk size', async () => {
+    const timeouts: number[] = [];
+    const relay = new Relay(testRelayURL, {
+      send: async (request: RelayRequest) => {
+        timeouts.push(request.timeout);
+        return 'token';
+      }
+    }, { requestTimeout: 1000, timeoutPerKilobyte: 100, expectedChunkSize: 4096 });
+    const message = { nonce: '', ctext: '' };
+
+    await relay.runCmd(RelayCommand.upload, '', message);
+    await relay.runCmd(RelayCommand.uploadFileChunk, '', message, 'x'.repeat(2048)).catch(() => null);
+    await relay.runCmd(RelayCommand.downloadFileChunk, '', message).catch(() => null);
+    expect(timeouts).toEqual([1000, 1200, 1400]);
+  });
+
+  it('should clear the session when a transport reports 401', async () => {
+    const relay = new Relay(testRelayURL);
+    await relay.openConnection();
+    relay.transport = { send: jest.fn().mockRejectedValue(new GlowNetworkError(401)) };
+    await expect(relay.runCmd(RelayCommand.count, '', { nonce: '', ctext: '' }))
+      .rejects.toEqual(new GlowNetworkError(401));
+    expect(relay.isConnected).toBe(false);
+  });
+
   it('should handle server errors', async () => {
     global.fetch = jest.fn().mockRejectedValue(new Error('500'));
 
@@ -21,4 +138,53 @@ describe('Relay', () => {
     const connection = relay.openConnection();
     expect(connection).rejects.toThrow('500');
   });
+
+  it('should call middleware hooks with redacted requests and responses', async () => {
+    const mockRelay = new MockZaxRelay('https://middleware.zax', { difficulty: 3 });
+    const relay = new Relay(mockRelay.url, mockRelay);
+    const before: RelayRequestInfo[] = [];
+    const after: RelayResponseInfo[] = [];
+    relay.use({ before: request => before.push(request), after: response => after.push(response) });
+
+    await relay.probe();
+    expect(before).toHaveLength(1);
+    expect(before[0]).toMatchObject({ relay: mockRelay.url, endpoint: 'start_session', command: undefined });
+    expect(before[0].params[0]).toMatch(/^\[redacted \d+ bytes\]$/);
+    expect(before[0].requestBytes).toBeGreaterThan(0);
+    // difficulty is not sensitive
+    expect(after[0].response).toEqual([expect.stringMatching(/^\[redacted/), '3']);
+    expect(after[0].responseBytes).toBeGreaterThan(0);
+    expect(after[0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should pass raw lines and errors to middleware', async () => {
+    const relay = new Relay('https://failing.zax', { send: jest.fn().mockRejectedValue(new GlowNetworkError(503)) });
+    const errors: RelayErrorInfo[] = [];
+    const remove = relay.use({ error: error => errors.push(error), redact: false });
+
+    await relay.probe();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ endpoint: 'start_session', status: 503 });
+    expect(errors[0].error).toBeInstanceOf(GlowNetworkError);
+    expect(errors[0].params[0]).not.toMatch(/redacted/);
+
+    remove();
+    await relay.probe(0);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should throw typed errors with the relay and command', async () => {
+    const relay = new Relay('https://typed.zax', { send: jest.fn().mockResolvedValue('one\r\ntwo\r\nthree') });
+    const message = { nonce: '', ctext: '' };
+    const badResponse = relay.runCmd(RelayCommand.count, '', message);
+    await expect(badResponse).rejects.toBeInstanceOf(GlowProtocolError);
+    await expect(badResponse).rejects.toMatchObject(
+      { code: 'BAD_RESPONSE', relay: 'https://typed.zax', command: RelayCommand.count });
+
+    relay.transport = { send: jest.fn().mockRejectedValue(new GlowNetworkError(503)) };
+    await expect(relay.runCmd(RelayCommand.download, '', message)).rejects.toMatchObject(
+      { code: 'NETWORK_ERROR', status: 503, relay: 'https://typed.zax', command: RelayCommand.download });
+    await expect(relay.runCmd('unknown', '', message)).rejects.toMatchObject({ code: 'UNSUPPORTED_COMMAND' });
+    await expect(relay.encodeMessage('')).rejects.toMatchObject({ name: 'GlowSessionError', code: 'NO_SESSION' });
+  });
 });
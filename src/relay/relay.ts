@@ -6,16 +6,95 @@ import { Base64, Utils } from '../utils/utils';
 import { Keys } from '../keys/keys';
 import { RelayCommand } from '../zax.interface';
 import { GlowNetworkError } from './network-error';
+import { GlowAbortError } from './abort-error';
+import { GlowProtocolError, GlowDecryptionError, GlowSessionError } from '../errors';
+import { RelayTransport } from './relay-transport.interface';
+import { FetchTransport } from './fetch-transport';
+import { ProofOfWork, ProofOfWorkOptions } from './proof-of-work';
+import { RelayMiddleware, RelayRequestInfo, redactLines } from './relay-middleware';
+import { RelayCommands } from './relay-commands';
+import { EventEmitter } from '../utils/event-emitter';
+import { Log } from '../logger/log';
+import { Logger, LogContext, LogLevel } from '../logger/logger.interface';
+
+/**
+ * Per-relay settings. Omitted values fall back to the defaults in `config`
+ */
+export interface RelayOptions {
+  // Request timeout in milliseconds
+  requestTimeout?: number;
+  // Additional request timeout per kilobyte of a file chunk, for uploads and downloads on slow links
+  timeoutPerKilobyte?: number;
+  // Expected size of downloaded file chunks in bytes, used to scale the download timeout
+  expectedChunkSize?: number;
+  // Token and session TTLs in milliseconds, matched with token_timeout and session_timeout of this Zax server
+  tokenTimeout?: number;
+  sessionTimeout?: number;
+  // Handshake difficulty above which the connection is refused instead of computing the proof of work
+  maxDifficulty?: number;
+}
+
+/**
+ * Session lifecycle events emitted by `Relay`, with their listener arguments
+ */
+export type RelayEvents = {
+  // Session handshake has started
+  connecting: [];
+  // Mailbox ownership is proven, and a session is established
+  connected: [messageCount: number];
+  // Relay token or session keys were dropped after their TTL
+  tokenExpired: [];
+  sessionExpired: [];
+  // Relay responded with 401, and the session was dropped
+  unauthorized: [];
+  // Any other failed request to the relay
+  error: [error: Error];
+};
+
+export const relayEvents: (keyof RelayEvents)[] =
+  ['connecting', 'connected', 'tokenExpired', 'sessionExpired', 'unauthorized', 'error'];
+
+/**
+ * Serializable state of an established relay session, see `Relay.exportSession`
+ */
+export interface RelaySessionState {
+  // Session key pair, as serialized by `Keys`
+  sessionKeys: string;
+  relayPublicKey: Base64;
+  clientToken?: Base64;
+  // Expiration timestamps of the token and the session
+  tokenExpiresAt?: number;
+  sessionExpiresAt: number;
+}
 
 export interface RelayConnectionData {
   h2Signature: Uint8Array;
   relayPublicKey: Uint8Array;
 }
 
+/**
+ * Why a relay probe failed: no connectivity, timeout, server error (5xx),
+ * other HTTP error status, or unexpected response format
+ */
+export type RelayProbeError = 'offline' | 'timeout' | 'server' | 'rejected' | 'protocol';
+
+export interface RelayProbeResult {
+  url: string;
+  // Timestamp of the probe
+  time: number;
+  // Round-trip time of `start_session` in milliseconds, if the relay responded
+  latency?: number;
+  // Handshake difficulty requested by the relay
+  difficulty?: number;
+  error?: RelayProbeError;
+  // HTTP status of a failed probe
+  status?: number;
+}
+
 /**
  * Low-level operations with Zax relay
  */
-export class Relay {
+export class Relay extends EventEmitter<RelayEvents> {
   private nacl: NaClDriver;
   private difficulty = 0;
   private publicKey?: Uint8Array;
@@ -23,9 +102,52 @@ export class Relay {
   private sessionKeys?: Keys;
   private tokenExpirationTimeoutHandle?: ReturnType<typeof setTimeout>;
   private sessionExpirationTimeoutHandle?: ReturnType<typeof setTimeout>;
-
-  constructor(public url: string) {
+  private tokenExpiresAt?: number;
+  private sessionExpiresAt?: number;
+  private lastProbe?: RelayProbeResult;
+  private middleware: RelayMiddleware[] = [];
+  private logger?: Logger;
+  private options: Required<RelayOptions> = {
+    requestTimeout: config.RELAY_AJAX_TIMEOUT,
+    timeoutPerKilobyte: config.RELAY_TIMEOUT_PER_KB,
+    expectedChunkSize: config.RELAY_EXPECTED_CHUNK_SIZE,
+    tokenTimeout: config.RELAY_TOKEN_TIMEOUT,
+    sessionTimeout: config.RELAY_SESSION_TIMEOUT,
+    maxDifficulty: Infinity
+  };
+
+  constructor(public url: string, public transport: RelayTransport = new FetchTransport(), options?: RelayOptions) {
+    super();
     this.nacl = NaCl.getInstance();
+    if (options) {
+      this.setOptions(options);
+    }
+  }
+
+  /**
+   * Overrides some of the relay settings. New timeouts apply to the next requests and sessions
+   */
+  setOptions(options: RelayOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Adds request/response hooks, and returns a function that removes them
+   */
+  use(middleware: RelayMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => this.removeMiddleware(middleware);
+  }
+
+  removeMiddleware(middleware: RelayMiddleware) {
+    this.middleware = this.middleware.filter(item => item !== middleware);
+  }
+
+  /**
+   * Sets a logger for this relay. Pass `null` to fall back to the default logger
+   */
+  setLogger(logger: Logger | null) {
+    this.logger = logger ?? undefined;
   }
 
   get isConnected() {
@@ -38,13 +160,15 @@ export class Relay {
 
   /**
    * Exchanges tokens with a relay and gets a temp session key for this relay.
-   * Returns h₂(signature) and a relay public key
+   * Returns h₂(signature) and a relay public key. `options` report progress of the proof of work
+   * requested by a relay, and allow to cancel it
    */
-  async openConnection(): Promise<RelayConnectionData> {
+  async openConnection(options?: ProofOfWorkOptions): Promise<RelayConnectionData> {
+    this.emit('connecting');
     this.sessionKeys = new Keys(await this.nacl.crypto_box_keypair());
     this.clientToken = await this.nacl.random_bytes(config.RELAY_TOKEN_LEN);
-    const relayToken = await this.fetchRelayToken();
-    this.publicKey = await this.fetchRelayPublicKey(relayToken);
+    const relayToken = await this.fetchRelayToken(options?.signal);
+    this.publicKey = await this.fetchRelayPublicKey(relayToken, options);
     return {
       h2Signature: await this.getSignature(relayToken, this.sessionKeys),
       relayPublicKey: this.publicKey
@@ -54,19 +178,24 @@ export class Relay {
   /**
    * Sends a client token to a relay and saves a relay token
    */
-  private async fetchRelayToken(): Promise<Uint8Array> {
+  private async fetchRelayToken(signal?: AbortSignal): Promise<Uint8Array> {
     if (!this.clientToken) {
-      throw new Error('[Relay] clientToken is required please openConnection first');
+      throw this.noSessionError('clientToken is required please openConnection first');
     }
-    const data = await this.httpCall('start_session', Utils.toBase64(this.clientToken));
+    const data = await this.httpCall('start_session', [Utils.toBase64(this.clientToken)], signal);
     // Set a timer to mark a relay instance as having an expired token after a certain time
     this.scheduleTokenExpiration();
     // Relay responds with its own counter token. Until session is established these 2 tokens are handshake id.
     const [token, difficulty] = this.parseResponse('start_session', data);
 
     this.difficulty = parseInt(difficulty, 10);
+    if (this.difficulty > this.options.maxDifficulty) {
+      throw new GlowSessionError('DIFFICULTY_TOO_HIGH', `[Relay] ${this.url} requested difficulty ` +
+        `${this.difficulty}, the maximum accepted is ${this.options.maxDifficulty}`, { relay: this.url });
+    }
     if (this.difficulty > 10) {
-      console.log(`[Relay] ${this.url} requested difficulty ${this.difficulty}. Session handshake may take longer.`);
+      this.log('info', `[Relay] ${this.url} requested difficulty ${this.difficulty}. ` +
+        'Session handshake may take longer.', { command: 'start_session', difficulty: this.difficulty });
     }
 
     return Utils.fromBase64(token);
@@ -75,9 +204,9 @@ export class Relay {
   /**
    * Completes the handshake and saves a relay pubic key
    */
-  private async fetchRelayPublicKey(relayToken: Uint8Array) {
+  private async fetchRelayPublicKey(relayToken: Uint8Array, options?: ProofOfWorkOptions) {
     if (!this.clientToken) {
-      throw new Error('[Relay] clientToken is required please openConnection first');
+      throw this.noSessionError('clientToken is required please openConnection first');
     }
     // After clientToken is sent to the relay, we use only h2() of it
     const h2ClientToken = Utils.toBase64(await this.nacl.h2(this.clientToken));
@@ -89,11 +218,12 @@ export class Relay {
     if (this.difficulty === 0) {
       sessionHandshake = await this.nacl.h2(handshake);
     } else {
-      sessionHandshake = await this.ensureNonceDifficulty(handshake);
+      sessionHandshake = await ProofOfWork.solve(handshake, this.difficulty, options);
     }
 
     // We confirm handshake by sending back h2(clientToken, relay_token)
-    const relayPk = await this.httpCall('verify_session', h2ClientToken, Utils.toBase64(sessionHandshake));
+    const relayPk = await this.httpCall('verify_session',
+      [h2ClientToken, Utils.toBase64(sessionHandshake)], options?.signal);
     // Relay gives us back temp session key masked by clientToken we started with
     return Utils.fromBase64(relayPk);
   }
@@ -101,26 +231,72 @@ export class Relay {
   /**
    * Attaches a mailbox and fetches number of messages
    */
-  async prove(payload: EncryptedMessage): Promise<string> {
+  async prove(payload: EncryptedMessage, signal?: AbortSignal): Promise<string> {
     if (!this.clientToken) {
-      throw new Error('[Relay] clientToken is required please openConnection first');
+      throw this.noSessionError('clientToken is required please openConnection first');
     }
     if (!this.sessionKeys) {
-      throw new Error('[Relay] No session key found, open the connection first');
+      throw this.noSessionError('No session key found, open the connection first');
     }
     const h2ClientToken = Utils.toBase64(await this.nacl.h2(this.clientToken));
     const result = await this.httpCall('prove',
-      h2ClientToken, this.sessionKeys.publicKey, payload.nonce, payload.ctext);
+      [h2ClientToken, this.sessionKeys.publicKey, payload.nonce, payload.ctext], signal);
     this.scheduleSessionExpiration();
+    this.emit('connected', parseInt(result, 10));
     return result;
   }
 
+  // ---------- Session persistence ----------
+
+  /**
+   * Returns the state of an established session, so that it can be resumed by another
+   * Relay instance with `restoreSession`. Returns `null` if the relay is not connected
+   */
+  exportSession(): RelaySessionState | null {
+    if (!this.sessionKeys || !this.publicKey || !this.sessionExpiresAt) {
+      return null;
+    }
+    const hasToken = this.clientToken && this.tokenExpiresAt;
+    return {
+      sessionKeys: this.sessionKeys.toString(),
+      relayPublicKey: Utils.toBase64(this.publicKey),
+      clientToken: hasToken ? Utils.toBase64(this.clientToken as Uint8Array) : undefined,
+      tokenExpiresAt: hasToken ? this.tokenExpiresAt : undefined,
+      sessionExpiresAt: this.sessionExpiresAt
+    };
+  }
+
+  /**
+   * Resumes a session exported with `exportSession`, unless it has already expired or is malformed.
+   * Returns `true` if the relay is connected after that
+   */
+  restoreSession(state: RelaySessionState): boolean {
+    const now = Date.now();
+    if (!Relay.isSessionState(state) || state.sessionExpiresAt <= now) {
+      return false;
+    }
+    this.sessionKeys = new Keys(state.sessionKeys);
+    this.publicKey = Utils.fromBase64(state.relayPublicKey);
+    this.scheduleSessionExpiration(state.sessionExpiresAt - now);
+    if (state.clientToken && state.tokenExpiresAt && state.tokenExpiresAt > now) {
+      this.clientToken = Utils.fromBase64(state.clientToken);
+      this.scheduleTokenExpiration(state.tokenExpiresAt - now);
+    }
+    return true;
+  }
+
+  private static isSessionState(state: unknown): state is RelaySessionState {
+    const { sessionKeys, relayPublicKey, clientToken, sessionExpiresAt } = (state ?? {}) as Partial<RelaySessionState>;
+    return typeof sessionKeys === 'string' && typeof relayPublicKey === 'string' &&
+      typeof sessionExpiresAt === 'number' && (clientToken === undefined || typeof clientToken === 'string');
+  }
+
   async encodeMessage(message: string): Promise<EncryptedMessage> {
     if (!this.publicKey) {
-      throw new Error('[Relay] No relay public key found, open the connection first');
+      throw this.noSessionError('No relay public key found, open the connection first');
     }
     if (!this.sessionKeys) {
-      throw new Error('[Relay] No session key found, open the connection first');
+      throw this.noSessionError('No session key found, open the connection first');
     }
 
     return await EncryptionHelper.encodeMessage(
@@ -130,18 +306,65 @@ export class Relay {
   async decodeMessage<T>(nonce: Base64, ctext: Base64): Promise<T> {
     const relayPk = this.publicKey;
     if (!relayPk) {
-      throw new Error('[Relay] No relay public key found, open the connection first');
+      throw this.noSessionError('No relay public key found, open the connection first');
     }
     if (!this.sessionKeys) {
-      throw new Error('[Relay] No session key found, open the connection first');
+      throw this.noSessionError('No session key found, open the connection first');
     }
 
     const decodedData = await EncryptionHelper.decodeMessage(Utils.fromBase64(nonce), Utils.fromBase64(ctext), relayPk,
       Utils.fromBase64(this.sessionKeys.privateKey));
     if (decodedData === null) {
-      throw new Error('[Relay] failed to decode message');
+      throw new GlowDecryptionError('[Relay] failed to decode message', { relay: this.url });
+    }
+    try {
+      return JSON.parse(decodedData);
+    } catch {
+      throw new GlowProtocolError('BAD_RESPONSE', '[Relay] decoded message is not valid JSON', { relay: this.url });
     }
-    return JSON.parse(decodedData);
+  }
+
+  // ---------- Health probing ----------
+
+  /**
+   * Measures relay availability and latency with a `start_session` round-trip, which doesn't
+   * affect an established session. Results are reused for `maxAge` milliseconds
+   */
+  async probe(maxAge = config.RELAY_PROBE_TTL, signal?: AbortSignal): Promise<RelayProbeResult> {
+    if (this.lastProbe && Date.now() - this.lastProbe.time < maxAge) {
+      return this.lastProbe;
+    }
+
+    const time = Date.now();
+    let result: RelayProbeResult;
+    try {
+      const probeToken = await this.nacl.random_bytes(config.RELAY_TOKEN_LEN);
+      // a failed probe is reported in its result, and doesn't affect the session
+      const data = await this.request('start_session', [Utils.toBase64(probeToken)], signal);
+      const [, difficulty] = this.parseResponse('start_session', data);
+      result = { url: this.url, time, latency: Date.now() - time, difficulty: parseInt(difficulty, 10) };
+    } catch (err) {
+      if (err instanceof GlowAbortError) {
+        throw err;
+      } else if (err instanceof GlowNetworkError) {
+        result = { url: this.url, time, error: this.probeError(err.status), status: err.status };
+      } else {
+        result = { url: this.url, time, error: 'protocol' };
+      }
+    }
+    this.lastProbe = result;
+    return result;
+  }
+
+  private probeError(status?: number): RelayProbeError {
+    if (status === 0) {
+      return 'offline';
+    } else if (status === 408) {
+      return 'timeout';
+    } else if (status && status >= 500) {
+      return 'server';
+    }
+    return 'rejected';
   }
 
   // ---------- Low-level server request handling ----------
@@ -149,9 +372,11 @@ export class Relay {
   /**
    * Executes a message/file command on a relay, parses and validates the response
    */
-  async runCmd(command: RelayCommand, hpk: Base64, message: EncryptedMessage, ctext?: string): Promise<string[]> {
-    if (!Object.keys(RelayCommand).includes(command)) {
-      throw new Error(`[Relay] ${this.url} doesn't support command ${command}`);
+  async runCmd(command: string, hpk: Base64, message: EncryptedMessage, ctext?: string,
+    signal?: AbortSignal): Promise<string[]> {
+    if (!RelayCommands.get(command)) {
+      throw new GlowProtocolError('UNSUPPORTED_COMMAND', `[Relay] ${this.url} doesn't support command ${command}`,
+        { relay: this.url, command });
     }
 
     const payload = [hpk, message.nonce, message.ctext];
@@ -160,13 +385,13 @@ export class Relay {
       payload.push(ctext);
     }
 
-    const response = await this.httpCall('command', ...payload);
+    const response = await this.httpCall('command', payload, signal, this.commandTimeout(command, ctext), command);
     return this.parseResponse(command, response);
   }
 
   private async getSignature(relayToken: Uint8Array, sessionKeys: Keys) {
     if (!this.clientToken) {
-      throw new Error('[Relay] clientToken is required please openConnection first');
+      throw this.noSessionError('clientToken is required please openConnection first');
     }
     const clientTempPk = Utils.fromBase64(sessionKeys.publicKey);
     // Alice creates a 32 byte session signature as h₂(a_temp_pk, relayToken, clientToken)
@@ -176,55 +401,103 @@ export class Relay {
   }
 
   /**
-   * Executes a call to a relay and return raw string response
+   * Executes a call to a relay and returns raw string response. Failed calls are emitted
+   * as `error`, and a call rejected with 401 clears the session
    */
-  // TODO: extract fetching into separate function
-  private async httpCall(command: string, ...params: string[]): Promise<string> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), config.RELAY_AJAX_TIMEOUT);
-
-    const requestInit: RequestInit = {
-      method: 'POST',
-      headers: {
-        Accept: 'text/plain',
-        'Content-Type': 'text/plain',
-      },
-      body: params.join('\r\n'),
-      signal: controller.signal,
-    };
-
-    // NOTE: Network and server errors are not handled ny Glow itself.
-    // They should instead be handled where the library is used
+  private async httpCall(endpoint: string, params: string[], signal?: AbortSignal,
+    timeout = this.options.requestTimeout, command?: string): Promise<string> {
     try {
-      const response = await fetch(`${this.url}/${command}`, requestInit);
-      if (!response.ok) {
-        if (response.status === 401) {
-          // clear session if unauthorized
-          this.clearSession();
-          this.clearToken();
-        }
-        throw new GlowNetworkError(response.status);
+      return await this.request(endpoint, params, signal, timeout, command);
+    } catch (err) {
+      if (signal?.aborted) {
+        throw err;
       }
-      return await response.text();
-    } catch (err: unknown) {
-      if (err instanceof Error && err.name === 'AbortError') {
-        // Timeout occurred during fetch request or while downloading response body
-        throw new GlowNetworkError(408);
+      if (err instanceof GlowNetworkError && err.status === 401) {
+        // clear session if unauthorized
+        this.clearSession();
+        this.clearToken();
+        this.emit('unauthorized');
+      } else if (err instanceof Error) {
+        this.emit('error', err);
       }
+      throw err;
+    }
+  }
+
+  /**
+   * Sends a request via the transport and returns raw string response, calling middleware hooks around it,
+   * and logs failures. Throws `GlowAbortError` if the request was cancelled with `signal`
+   */
+  private async request(endpoint: string, params: string[], signal?: AbortSignal,
+    timeout = this.options.requestTimeout, command?: string): Promise<string> {
+    GlowAbortError.throwIfAborted(signal);
+    const body = params.join('\r\n');
+    const started = Date.now();
+    const requestInfo = (lines: (lines: string[]) => string[]): RelayRequestInfo =>
+      ({ relay: this.url, endpoint, command, params: lines(params), requestBytes: body.length });
+    this.runMiddleware((middleware, lines) => middleware.before?.(requestInfo(lines)));
+
+    let response: string;
+    try {
+      response = await this.transport.send({ url: `${this.url}/${endpoint}`, body, timeout, signal });
+    } catch (err: unknown) {
       if (err instanceof GlowNetworkError) {
-        throw err;
+        err.relay = err.relay ?? this.url;
+        err.command = err.command ?? command ?? endpoint;
+      }
+      if (err instanceof Error) {
+        const status = err instanceof GlowNetworkError ? err.status : undefined;
+        this.runMiddleware((middleware, lines) =>
+          middleware.error?.({ ...requestInfo(lines), error: err, status, duration: Date.now() - started }));
       }
-      if (err instanceof TypeError) {
-        // Network layer errors (no internet, DNS failure, CORS, etc.)
-        // https://developer.mozilla.org/en-US/docs/Web/API/Window/fetch#exceptions
-        // Use status 0 to indicate network connectivity issues
-        throw new GlowNetworkError(0);
+      if (signal?.aborted) {
+        // transports may report cancellation in their own way
+        throw err instanceof GlowAbortError ? err : new GlowAbortError();
       }
-      // For any other unexpected errors, re-throw the original error
+      this.log('warn', `[Relay] ${this.url} - ${command ?? endpoint}: Request failed`,
+        { command: command ?? endpoint, status: err instanceof GlowNetworkError ? err.status : undefined });
       throw err;
-    } finally {
-      clearTimeout(timeoutId);
     }
+
+    this.runMiddleware((middleware, lines) => middleware.after?.({
+      ...requestInfo(lines),
+      response: lines(response.split('\r\n')),
+      responseBytes: response.length,
+      duration: Date.now() - started
+    }));
+    return response;
+  }
+
+  /**
+   * Calls a hook of every middleware, along with a function that redacts request
+   * or response lines unless the middleware opted out
+   */
+  private runMiddleware(hook: (middleware: RelayMiddleware, lines: (lines: string[]) => string[]) => void) {
+    for (const middleware of this.middleware) {
+      hook(middleware, lines => middleware.redact === false ? lines : redactLines(lines));
+    }
+  }
+
+  private noSessionError(message: string) {
+    return new GlowSessionError('NO_SESSION', `[Relay] ${message}`, { relay: this.url });
+  }
+
+  private log(level: LogLevel, message: string, context: LogContext = {}) {
+    (this.logger ?? Log.getDefaultLogger()).log(level, message, { relay: this.url, ...context });
+  }
+
+  /**
+   * File chunk transfers get additional time proportional to the chunk size
+   */
+  private commandTimeout(command: string, ctext?: string): number {
+    const { requestTimeout, timeoutPerKilobyte, expectedChunkSize } = this.options;
+    if (command === RelayCommand.uploadFileChunk && ctext) {
+      return requestTimeout + Math.ceil(ctext.length / 1024) * timeoutPerKilobyte;
+    }
+    if (command === RelayCommand.downloadFileChunk) {
+      return requestTimeout + Math.ceil(expectedChunkSize / 1024) * timeoutPerKilobyte;
+    }
+    return requestTimeout;
   }
 
   /**
@@ -234,37 +507,35 @@ export class Relay {
     const response = rawResponse.split('\r\n');
 
     if (!rawResponse || !this.validateResponse(command, response.length)) {
-      console.log(response);
-      throw new Error(`[Relay] ${this.url} - ${command}: Bad response`);
+      // response lines may contain ciphertext, so only their number is logged
+      this.log('error', `[Relay] ${this.url} - ${command}: Bad response`, { command, lines: response.length });
+      throw new GlowProtocolError('BAD_RESPONSE', `[Relay] ${this.url} - ${command}: Bad response`,
+        { relay: this.url, command });
     }
 
     return response;
   }
 
   /**
-   * Compares the expected number of lines in response with what was actually received from a relay
+   * Compares the expected number of lines in response with what was actually received from a relay.
+   * Handshake endpoints respond with two lines
    */
   private validateResponse(command: string, lines: number): boolean {
-    switch (command) {
-      case RelayCommand.upload:
-      case RelayCommand.messageStatus:
-      case RelayCommand.delete:
-        return lines === 1;
-      case RelayCommand.downloadFileChunk:
-        return lines === 3;
-      default:
-        return lines === 2;
-    }
+    return lines === (RelayCommands.get(command)?.responseLines ?? 2);
   }
 
   /**
    * delete token locally before it was removed on server so will reconnect without getting unauthorized error
    */
-  private scheduleTokenExpiration() {
+  private scheduleTokenExpiration(timeout = this.options.tokenTimeout) {
     if (this.tokenExpirationTimeoutHandle) {
       clearTimeout(this.tokenExpirationTimeoutHandle);
     }
-    this.tokenExpirationTimeoutHandle = setTimeout(() => this.clearToken(), config.RELAY_TOKEN_TIMEOUT);
+    this.tokenExpiresAt = Date.now() + timeout;
+    this.tokenExpirationTimeoutHandle = Utils.unrefTimer(setTimeout(() => {
+      this.clearToken();
+      this.emit('tokenExpired');
+    }, timeout));
   }
 
   clearToken() {
@@ -274,19 +545,22 @@ export class Relay {
     if (this.clientToken) {
       delete this.clientToken;
     }
+    delete this.tokenExpiresAt;
   }
 
   /**
    * established session is valid only for some period need to remove it after it's ttl
    * so relay will reconnect without receiving error from server
    */
-  private scheduleSessionExpiration() {
+  private scheduleSessionExpiration(timeout = this.options.sessionTimeout) {
     if (this.sessionExpirationTimeoutHandle) {
       clearTimeout(this.sessionExpirationTimeoutHandle);
     }
-    this.sessionExpirationTimeoutHandle = setTimeout(() => {
+    this.sessionExpiresAt = Date.now() + timeout;
+    this.sessionExpirationTimeoutHandle = Utils.unrefTimer(setTimeout(() => {
       this.clearSession();
-    }, config.RELAY_SESSION_TIMEOUT);
+      this.emit('sessionExpired');
+    }, timeout));
   }
 
   clearSession() {
@@ -296,57 +570,6 @@ export class Relay {
     if (this.sessionKeys) {
       delete this.sessionKeys;
     }
-  }
-
-  // ---------- Difficulty adjustment ----------
-
-  /**
-   * Continuously calculates the nonce until one requested by a relay is found
-   */
-  private async ensureNonceDifficulty(handshake: Uint8Array) {
-    let nonce;
-    let h2;
-    do {
-      nonce = await this.nacl.random_bytes(32);
-      h2 = await this.nacl.h2(new Uint8Array([...handshake, ...nonce]));
-    } while (!this.arrayZeroBits(h2));
-
-    return nonce;
-  }
-
-  /**
-   * Returns `true` if the rightmost n bits of a byte are 0.
-   * Check whether the rightmost difficulty bits of an Uint8Array are 0, where
-   * the lowest indexes of the array represent those rightmost bits. Thus if
-   * the difficulty is 17, then array[0] and array[1] should be 0, as should the
-   * rightmost bit of array[2]. This is used for our difficulty settings in Zax to
-   * reduce burden on a busy server by ensuring clients have to do some
-   * additional work during the session handshake
-   */
-  private arrayZeroBits(array: Uint8Array): boolean {
-    let byte;
-    let n = this.difficulty;
-    for (let i = 0; i <= (1 + this.difficulty / 8); i++) {
-      byte = array[i];
-      if (n <= 0) {
-        return true;
-      }
-      if (n > 8) {
-        n -= 8;
-        if (byte > 0) {
-          return false;
-        }
-      } else {
-        return this.firstZeroBits(byte, n);
-      }
-    }
-    return false;
-  }
-
-  /**
-   * Returns `true` if the rightmost n bits of a byte are 0
-   */
-  private firstZeroBits(byte: number, n: number): boolean {
-    return byte === ((byte >> n) << n);
+    delete this.sessionExpiresAt;
   }
 }
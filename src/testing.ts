@@ -0,0 +1,7 @@
+import { MockZaxRelay, MockZaxRelayOptions, MockCommandHandler } from './relay/mock-zax-relay';
+
+export {
+  MockZaxRelay,
+  type MockZaxRelayOptions,
+  type MockCommandHandler
+};
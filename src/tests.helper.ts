@@ -1,6 +1,91 @@
+import { config } from './config';
+import { NaCl } from './nacl/nacl';
+import { CryptoStorage } from './crypto-storage/crypto-storage';
+import { InMemoryStorage } from './crypto-storage/in-memory-storage';
+import { MockZaxRelay, MockZaxRelayOptions } from './relay/mock-zax-relay';
+import { RelayTransport } from './relay/relay-transport.interface';
+import { GlowNetworkError } from './relay/network-error';
+import { Mailbox } from './mailbox/mailbox';
+
 export const testRelayURL = 'https://z.vault12.com';
 export const testRelayURL2 = 'https://z2.vault12.com';
 
 export function randomNumber(min: number, max: number): number {
   return Math.floor(min + Math.random() * (max - min + 1));
 }
+
+/**
+ * Serves test relay URLs with in-process mock relays for the rest of a spec file, and restores `fetch` after it.
+ * Set `ZAX_LIVE_RELAY=1` environment variable to run the specs against live relays instead
+ */
+export function setupMockRelays(options?: MockZaxRelayOptions): MockZaxRelay[] {
+  if (process.env.ZAX_LIVE_RELAY) {
+    return [];
+  }
+  const relays = [testRelayURL, testRelayURL2].map(url => new MockZaxRelay(url, options));
+  beforeAll(() => relays.forEach(relay => relay.install()));
+  afterAll(() => [...relays].reverse().forEach(relay => relay.uninstall()));
+  return relays;
+}
+
+/**
+ * Sets the default NaCl instance and in-memory storage before the tests of a spec file.
+ * The storage driver can be set once per spec file
+ */
+export function setupMockStorage() {
+  beforeAll(() => {
+    NaCl.setDefaultInstance();
+    CryptoStorage.setStorageDriver(new InMemoryStorage());
+  });
+}
+
+/**
+ * Creates mailboxes before the tests of a spec file, with in-memory storage. Mailboxes know each other
+ * as guests, talk to mock `relays` and retry failed commands with a 1 ms backoff. Sessions are cleared
+ * after the tests. The returned array is filled in `beforeAll`, so specs can override transports
+ * and retry policies in their own `beforeAll`
+ */
+export function setupMockMailboxes(relays: MockZaxRelay | MockZaxRelay[], identities: string[]): Mailbox[] {
+  const mocks = Array.isArray(relays) ? relays : [relays];
+  const transport: RelayTransport = {
+    send: async request => {
+      const relay = mocks.find(mock => request.url.startsWith(mock.url));
+      if (!relay) {
+        throw new GlowNetworkError(0);
+      }
+      return await relay.send(request);
+    }
+  };
+  const mailboxes: Mailbox[] = [];
+  setupMockStorage();
+  beforeAll(async () => {
+    for (const identity of identities) {
+      const mailbox = await Mailbox.new(identity);
+      mailbox.setRelayTransport(transport);
+      mailbox.setRetryPolicy({ baseDelay: 1, maxDelay: 1 });
+      mailboxes.push(mailbox);
+    }
+    await addGuests(mailboxes);
+  });
+  afterAll(() => mailboxes.forEach(mailbox => mocks.forEach(relay => mailbox.clearSession(relay.url))));
+  return mailboxes;
+}
+
+/**
+ * Adds each of the mailboxes to the keyrings of the others
+ */
+export async function addGuests(mailboxes: Mailbox[]) {
+  for (const mailbox of mailboxes) {
+    for (const guest of mailboxes.filter(guest => guest !== mailbox)) {
+      await mailbox.keyRing.addGuest(guest.identity, guest.keyRing.getPubCommKey());
+    }
+  }
+}
+
+/**
+ * Restores `config` after each test of a spec file, so that tests can change its values
+ */
+export function restoreConfig() {
+  const defaults = { ...config };
+  afterEach(() => Object.assign(config, defaults));
+}
@@ -0,0 +1,43 @@
+import { EventEmitter } from './event-emitter';
+
+class TestEmitter extends EventEmitter<{ ping: [value: number], done: [] }> {
+  ping(value: number) {
+    this.emit('ping', value);
+  }
+
+  done() {
+    this.emit('done');
+  }
+}
+
+describe('EventEmitter', () => {
+  it('should call listeners with event arguments', () => {
+    const emitter = new TestEmitter();
+    const listener = jest.fn();
+    emitter.on('ping', listener);
+    emitter.ping(1);
+    emitter.ping(2);
+    expect(listener.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('should unsubscribe listeners', () => {
+    const emitter = new TestEmitter();
+    const listener = jest.fn();
+    const unsubscribe = emitter.on('ping', listener);
+    emitter.on('done', listener);
+    unsubscribe();
+    emitter.off('done', listener);
+    emitter.ping(1);
+    emitter.done();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should call once listeners a single time', () => {
+    const emitter = new TestEmitter();
+    const listener = jest.fn();
+    emitter.once('done', listener);
+    emitter.done();
+    emitter.done();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
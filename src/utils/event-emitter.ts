@@ -0,0 +1,38 @@
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * Minimal typed event emitter that works the same in browsers and Node.js.
+ * `Events` maps event names to tuples of listener arguments
+ */
+export class EventEmitter<Events extends { [event: string]: unknown[] }> {
+  private listeners: { [E in keyof Events]?: Set<Listener<Events[E]>> } = {};
+
+  /**
+   * Subscribes to an event. Returns a function that removes the listener
+   */
+  on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+    const listeners = this.listeners[event] ?? (this.listeners[event] = new Set());
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribes to the first occurrence of an event only
+   */
+  once<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+    const unsubscribe = this.on(event, (...args) => {
+      unsubscribe();
+      listener(...args);
+    });
+    return unsubscribe;
+  }
+
+  off<E extends keyof Events>(event: E, listener: Listener<Events[E]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Events[E]) {
+    // copy listeners, so that the ones removed while emitting are still called this time
+    [...(this.listeners[event] ?? [])].forEach(listener => listener(...args));
+  }
+}
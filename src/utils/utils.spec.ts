@@ -22,4 +22,8 @@ describe('Utils', () => {
       expect(Utils.decode_latin1(Utils.fromBase64(base64))).toEqual(msg);
     });
   });
+
+  it('should reject strings out of the Latin1 range', () => {
+    expect(() => Utils.encode_latin1('price: €5')).toThrow(RangeError);
+  });
 });
@@ -1,3 +1,5 @@
+import { GlowAbortError } from '../relay/abort-error';
+
 export type Base64 = string;
 
 export class Utils {
@@ -19,7 +21,9 @@ export class Utils {
     const result = new Uint8Array(data.length);
     for (let i = 0; i < data.length; i++) {
       const c = data.charCodeAt(i);
-      if ((c & 0xff) !== c) throw { message: 'Cannot encode string in Latin1', str: data };
+      if ((c & 0xff) !== c) {
+        throw new RangeError(`[Utils] Cannot encode string in Latin1: character ${i} is out of range`);
+      }
       result[i] = (c & 0xff);
     }
     return result;
@@ -39,4 +43,33 @@ export class Utils {
       {},
     );
   }
+
+  /**
+   * Resolves after `ms` milliseconds, or rejects with `GlowAbortError` as soon as `signal` is aborted
+   */
+  static delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new GlowAbortError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new GlowAbortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Lets Node.js exit while a long timer is pending. Browser timers are returned as is
+   */
+  static unrefTimer<T extends ReturnType<typeof setTimeout>>(timer: T): T {
+    (timer as { unref?: () => void }).unref?.();
+    return timer;
+  }
 }
@@ -8,7 +8,7 @@ import { Base64 } from './utils/utils';
  * https://s3-us-west-1.amazonaws.com/vault12/crypto_relay.pdf
  */
 
-// In the future versions, plugins could add their own commands to specific relays
+// Standard Zax commands. Customized relays may support additional ones, see `RelayCommands`
 export enum RelayCommand {
   // Zax message commands
   count = 'count',
@@ -41,7 +41,9 @@ export enum MessageStatusResponse {
 export enum ZaxMessageKind {
   message = 'message',
   file = 'file',
-  plain = 'plain'
+  plain = 'plain',
+  rejected = 'rejected',
+  unencrypted = 'unencrypted'
 }
 
 /**
@@ -64,8 +66,32 @@ export interface ZaxTextMessage {
   senderTag: string;
   nonce: Base64;
   kind: ZaxMessageKind.message;
+  /**
+   * Parsed `data` of messages sent with `Mailbox.sendObject`
+   */
+  envelope?: MessageEnvelope;
+  /**
+   * Number of the message among the ones from the same sender, see `Mailbox.setSequencing`
+   */
+  seq?: number;
+}
+
+/**
+ * Typed wrapper of app payloads, see `Mailbox.sendObject`
+ */
+export interface MessageEnvelope<T = unknown> {
+  version: number;
+  // App-defined type of the payload, e.g. MIME type
+  contentType: string;
+  // Unique message id, shared by copies of the message
+  id: Base64;
+  // Unix time in milliseconds when the message was created
+  createdAt: number;
+  payload: T;
 }
 
+export type ZaxObjectMessage<T = unknown> = ZaxTextMessage & { envelope: MessageEnvelope<T> };
+
 export interface ZaxFileMessage {
   data: FileUploadMetadata;
   time: number;
@@ -84,7 +110,39 @@ export interface ZaxPlainMessage {
   kind: ZaxMessageKind.plain;
 }
 
-export type ZaxParsedMessage = ZaxPlainMessage | ZaxFileMessage | ZaxTextMessage;
+/**
+ * `outOfWindow`: nonce timestamp is outside of the acceptance window,
+ * `replayed`: the message was already received, see `Mailbox.setReplayGuard`
+ */
+export type ZaxRejectReason = 'outOfWindow' | 'replayed';
+
+/**
+ * A message from a known sender rejected by the replay guard. `data` is left encrypted
+ */
+export interface ZaxRejectedMessage {
+  data: string;
+  time: number;
+  senderTag: string;
+  nonce: Base64;
+  kind: ZaxMessageKind.rejected;
+  reason: ZaxRejectReason;
+}
+
+/**
+ * A message from a known sender that can't be decrypted: one sent with `encrypt` set to `false`,
+ * or one that was tampered with. Nothing proves it comes from the sender, so it's not checked
+ * by the replay guard, and it's never joined from parts, ordered by sequence number or applied as a receipt
+ */
+export interface ZaxUnencryptedMessage {
+  data: string;
+  time: number;
+  senderTag: string;
+  nonce: Base64;
+  kind: ZaxMessageKind.unencrypted;
+}
+
+export type ZaxParsedMessage = ZaxPlainMessage | ZaxFileMessage | ZaxTextMessage | ZaxRejectedMessage
+  | ZaxUnencryptedMessage;
 
 // -------------- File command responses --------------
 // See https://github.com/vault12/zax/wiki/Zax-2.0-File-Commands
@@ -0,0 +1,57 @@
+import { ZaxMessageKind } from './zax.interface';
+import {
+  isCountResponse, isDownloadResponse, isUploadResponse, isIntegerResponse, isStartFileUploadResponse,
+  isUploadFileChunkResponse, isDownloadFileChunkResponse, isFileStatusResponse, isDeleteFileResponse,
+  isFileMessageData, isFileUploadMetadata
+} from './zax.validators';
+
+describe('Zax response validators', () => {
+  const rawMessage = { data: 'ctext', time: 1700000000.5, from: 'hpk', nonce: 'nonce', kind: ZaxMessageKind.message };
+
+  it('should validate message command responses', () => {
+    expect(isCountResponse(3)).toBe(true);
+    expect(isCountResponse(-1)).toBe(false);
+    expect(isCountResponse('3')).toBe(false);
+
+    expect(isDownloadResponse([])).toBe(true);
+    expect(isDownloadResponse([rawMessage, { ...rawMessage, kind: ZaxMessageKind.file }])).toBe(true);
+    expect(isDownloadResponse(rawMessage)).toBe(false);
+    expect(isDownloadResponse([{ ...rawMessage, kind: ZaxMessageKind.plain }])).toBe(false);
+    expect(isDownloadResponse([{ ...rawMessage, time: '1700000000' }])).toBe(false);
+    expect(isDownloadResponse([rawMessage, null])).toBe(false);
+
+    expect(isUploadResponse(['token'])).toBe(true);
+    expect(isUploadResponse([''])).toBe(false);
+    expect(isIntegerResponse(['-2'])).toBe(true);
+    expect(isIntegerResponse(['two'])).toBe(false);
+  });
+
+  it('should validate file command responses', () => {
+    expect(isStartFileUploadResponse({ uploadID: 'id', max_chunk_size: 1024, storage_token: 'token' })).toBe(true);
+    expect(isStartFileUploadResponse({ uploadID: 'id', storage_token: 'token' })).toBe(false);
+
+    expect(isUploadFileChunkResponse({ status: 'OK' })).toBe(true);
+    expect(isUploadFileChunkResponse({ status: 'DONE' })).toBe(false);
+    expect(isDownloadFileChunkResponse({ nonce: 'nonce' })).toBe(true);
+    expect(isDownloadFileChunkResponse({})).toBe(false);
+
+    const status = { status: 'UPLOADING', total_chunks: 2, file_size: 100, bytes_stored: 50 };
+    expect(isFileStatusResponse(status)).toBe(true);
+    expect(isFileStatusResponse({ ...status, bytes_stored: undefined })).toBe(false);
+    expect(isFileStatusResponse({ status: 'NOT_FOUND' })).toBe(true);
+
+    expect(isDeleteFileResponse({ status: 'NOT_FOUND' })).toBe(true);
+    expect(isDeleteFileResponse('OK')).toBe(false);
+  });
+
+  it('should validate file messages', () => {
+    expect(isFileMessageData({ nonce: 'nonce', ctext: 'ctext', uploadID: 'id' })).toBe(true);
+    expect(isFileMessageData({ nonce: 'nonce', ctext: 'ctext' })).toBe(false);
+    expect(isFileMessageData(undefined)).toBe(false);
+
+    expect(isFileUploadMetadata({ name: 'file.txt', orig_size: 10, skey: 'key', created: 1700000000 })).toBe(true);
+    expect(isFileUploadMetadata({ name: 'file.txt', orig_size: '10' })).toBe(false);
+    expect(isFileUploadMetadata({ name: 'file.txt', orig_size: 10, md5: 5 })).toBe(false);
+    expect(isFileUploadMetadata(['file.txt'])).toBe(false);
+  });
+});
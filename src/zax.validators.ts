@@ -0,0 +1,118 @@
+import {
+  ZaxMessageKind, ZaxRawMessage, StartFileUploadResponse, UploadFileChunkResponse, FileStatusResponse,
+  DeleteFileResponse, FileUploadMetadata
+} from './zax.interface';
+
+/**
+ * Runtime checks of Zax relay responses, which are matched against `zax.interface.ts`
+ * before the data reaches the app
+ */
+
+type Fields = { [key: string]: unknown };
+
+function isObject(data: unknown): data is Fields {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
+
+function isString(data: unknown): data is string {
+  return typeof data === 'string';
+}
+
+function isNumber(data: unknown): data is number {
+  return typeof data === 'number';
+}
+
+function isNonNegativeInteger(data: unknown): data is number {
+  return Number.isInteger(data) && (data as number) >= 0;
+}
+
+function isOptional<T>(data: unknown, check: (value: unknown) => value is T): data is T | undefined {
+  return data === undefined || check(data);
+}
+
+function isOneOf<T extends string>(data: unknown, values: readonly T[]): data is T {
+  return values.includes(data as T);
+}
+
+// ---------- Message commands ----------
+
+export function isCountResponse(data: unknown): data is number {
+  return isNonNegativeInteger(data);
+}
+
+export function isZaxRawMessage(data: unknown): data is ZaxRawMessage {
+  return isObject(data)
+    && isString(data.data)
+    && typeof data.time === 'number'
+    && isString(data.from)
+    && isString(data.nonce)
+    && isOneOf(data.kind, [ZaxMessageKind.message, ZaxMessageKind.file]);
+}
+
+export function isDownloadResponse(data: unknown): data is ZaxRawMessage[] {
+  return Array.isArray(data) && data.every(isZaxRawMessage);
+}
+
+/**
+ * `upload` responds with a storage token
+ */
+export function isUploadResponse(lines: unknown): lines is [string] {
+  return Array.isArray(lines) && isString(lines[0]) && lines[0].length > 0;
+}
+
+/**
+ * `messageStatus` and `delete` respond with an integer: TTL of a message or number of remaining messages
+ */
+export function isIntegerResponse(lines: unknown): lines is [string] {
+  return Array.isArray(lines) && isString(lines[0]) && /^-?\d+$/.test(lines[0]);
+}
+
+// ---------- File commands ----------
+
+export function isStartFileUploadResponse(data: unknown): data is Omit<StartFileUploadResponse, 'skey'> {
+  return isObject(data)
+    && isString(data.uploadID)
+    && isNonNegativeInteger(data.max_chunk_size)
+    && isString(data.storage_token);
+}
+
+export function isUploadFileChunkResponse(data: unknown): data is UploadFileChunkResponse {
+  return isObject(data) && isOneOf(data.status, ['OK', 'NOT_FOUND']);
+}
+
+/**
+ * `downloadFileChunk` responds with a nonce of the symmetrically encrypted chunk
+ */
+export function isDownloadFileChunkResponse(data: unknown): data is { nonce: string } {
+  return isObject(data) && isString(data.nonce);
+}
+
+export function isFileStatusResponse(data: unknown): data is FileStatusResponse {
+  if (!isObject(data) || !isOneOf(data.status, ['COMPLETE', 'UPLOADING', 'START', 'NOT_FOUND'])) {
+    return false;
+  }
+  // sizes are not applicable to missing files
+  return data.status === 'NOT_FOUND'
+    || [data.total_chunks, data.file_size, data.bytes_stored].every(isNonNegativeInteger);
+}
+
+export function isDeleteFileResponse(data: unknown): data is DeleteFileResponse {
+  return isObject(data) && isOneOf(data.status, ['OK', 'NOT_FOUND']);
+}
+
+// ---------- File messages ----------
+
+/**
+ * Data of a file message stored by `startFileUpload`, with the file metadata encrypted for the recipient
+ */
+export function isFileMessageData(data: unknown): data is { nonce: string, ctext: string, uploadID: string } {
+  return isObject(data) && isString(data.nonce) && isString(data.ctext) && isString(data.uploadID);
+}
+
+export function isFileUploadMetadata(data: unknown): data is FileUploadMetadata {
+  return isObject(data)
+    && isString(data.name)
+    && isNonNegativeInteger(data.orig_size)
+    && [data.md5, data.attrs, data.skey].every(field => isOptional(field, isString))
+    && [data.created, data.modified].every(field => isOptional(field, isNumber));
+}
@@ -8,9 +8,12 @@ export default defineConfig({
   build: {
     sourcemap: true,
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'), // Main entry point
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'), // Main entry point
+        testing: resolve(__dirname, 'src/testing.ts'), // Test helpers, kept out of the main bundle
+      },
       formats: ['es', 'cjs'], // ESM and CommonJS
-      fileName: (format) => `glow.${format}.js`,
+      fileName: (format, entryName) => entryName === 'index' ? `glow.${format}.js` : `glow.${entryName}.${format}.js`,
     },
     rollupOptions: {
       // Make sure to externalize deps that shouldn't be bundled